@@ -0,0 +1,82 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { AceBaseIPCClientRole } from './server';
+
+export interface AceBaseIPCCredentials {
+    /** Token passed in the `Authorization: Bearer [token]` header, or in the `t` query parameter */
+    token?: string
+    /** Role the client declared, `undefined` if the request was not made on behalf of a connected client */
+    role?: AceBaseIPCClientRole
+}
+
+/**
+ * Callback to authenticate clients. Is called for each websocket connection attempt and for each http(s) request,
+ * should return (or resolve with) `true` to allow access. `clientId` is `undefined` for requests not made on behalf
+ * of a specific client, such as GET `/[dbname]/clients`. `dbname` is `"*"` for requests not bound to a specific database.
+ */
+export type AceBaseIPCAuthenticateCallback = (dbname: string, clientId: string | undefined, credentials: AceBaseIPCCredentials) => boolean | Promise<boolean>;
+
+export interface AceBaseIPCTokenSettings {
+    token: string
+    /** Roles clients using this token are allowed to connect with. Default is all roles */
+    roles?: AceBaseIPCClientRole[]
+}
+
+/**
+ * Access tokens per database name. Use `"*"` as dbname for tokens that are allowed to access all databases.
+ * @example
+ * {
+ *   orders: [{ token: 'secret1', roles: ['worker'] }, 'secret2'],
+ *   '*': ['admin_secret']
+ * }
+ */
+export interface AceBaseIPCTokens {
+    [dbname: string]: Array<string | AceBaseIPCTokenSettings>
+}
+
+/**
+ * Compares 2 strings in constant time to prevent timing attacks. Both values are hashed first so their lengths
+ * are always the same, which is required by `timingSafeEqual`
+ */
+export function safeCompare(a: string, b: string) {
+    const ha = createHash('sha256').update(a).digest();
+    const hb = createHash('sha256').update(b).digest();
+    return timingSafeEqual(ha, hb);
+}
+
+/**
+ * Gets the token from the `Authorization` header value, or the `t` query parameter value.
+ * A malformed (not properly url encoded) query parameter is treated as no token
+ */
+export function getToken(authorizationHeader: string, queryToken?: string) {
+    const match = /^Bearer\s+(.+)$/i.exec(authorizationHeader);
+    if (match) { return match[1].trim(); }
+    if (typeof queryToken !== 'string' || queryToken.length === 0) { return undefined; }
+    try {
+        return decodeURIComponent(queryToken);
+    }
+    catch (err) {
+        return undefined;
+    }
+}
+
+/**
+ * Checks the given credentials against the configured shared `token` and per-database `tokens`.
+ * Returns `true` if no tokens have been configured at all.
+ */
+export function checkTokens(config: { token?: string, tokens?: AceBaseIPCTokens }, dbname: string, credentials: AceBaseIPCCredentials) {
+    const hasToken = typeof config.token === 'string';
+    const hasTokens = typeof config.tokens === 'object' && config.tokens !== null;
+    if (!hasToken && !hasTokens) { return true; }
+    const token = credentials.token;
+    if (typeof token !== 'string') { return false; }
+    if (hasToken && safeCompare(token, config.token as string)) { return true; }
+    if (!hasTokens) { return false; }
+    const tokens = config.tokens as AceBaseIPCTokens;
+    const entries = ([] as Array<string | AceBaseIPCTokenSettings>).concat(dbname !== '*' && tokens[dbname] || [], tokens['*'] || []);
+    return entries.some(entry => {
+        const settings = typeof entry === 'string' ? { token: entry } as AceBaseIPCTokenSettings : entry;
+        const match = safeCompare(token, settings.token);
+        if (!match) { return false; }
+        return !settings.roles || typeof credentials.role === 'undefined' || settings.roles.includes(credentials.role);
+    });
+}
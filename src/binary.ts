@@ -0,0 +1,48 @@
+/**
+ * Binary frames are used by clients that negotiated binary mode during the handshake. Their layout is:
+ * `[type: uint8][idLength: uint8][id: utf8, idLength bytes][payload: remaining bytes]`
+ *
+ * The server routes binary frames by reading their header only, the payload is never decoded.
+ */
+export enum BinaryFrameType {
+    /** Client to server: broadcast payload to all other peers. `id` is empty. Forwarded to peers unchanged */
+    Broadcast = 1,
+    /** Client to server: send payload to the peer with `id`. Forwarded to the peer unchanged */
+    Directed = 2,
+    /** Server to client: payload was too large for the websocket connection, `id` is the message id to download it with. There is no payload */
+    Download = 3,
+}
+
+export interface BinaryFrameHeader {
+    type: BinaryFrameType
+    id: string
+    /** Length of the header in bytes, the payload starts at this offset */
+    length: number
+}
+
+/**
+ * Reads the header of a binary frame
+ * @returns `null` if the frame is invalid
+ */
+export function readBinaryHeader(data: ArrayBuffer | Uint8Array): BinaryFrameHeader | null {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    if (bytes.length < 2) { return null; }
+    const type = bytes[0], idLength = bytes[1];
+    if (!(type in BinaryFrameType) || bytes.length < 2 + idLength) { return null; }
+    const id = Buffer.from(bytes.buffer, bytes.byteOffset + 2, idLength).toString('utf8');
+    return { type, id, length: 2 + idLength };
+}
+
+/**
+ * Creates a binary frame
+ */
+export function createBinaryFrame(type: BinaryFrameType, id: string, payload?: Uint8Array) {
+    const idBytes = Buffer.from(id, 'utf8');
+    if (idBytes.length > 255) { throw new Error(`id "${id}" is too long for a binary frame`); }
+    const frame = Buffer.alloc(2 + idBytes.length + (payload ? payload.length : 0));
+    frame[0] = type;
+    frame[1] = idBytes.length;
+    idBytes.copy(frame, 2);
+    payload && frame.set(payload, 2 + idBytes.length);
+    return frame;
+}
@@ -0,0 +1,542 @@
+import { EventEmitter } from 'events';
+import http from 'http';
+import https from 'https';
+import tls from 'tls';
+import zlib from 'zlib';
+import { promisify } from 'util';
+import WebSocket from 'ws';
+import { BinaryFrameType, createBinaryFrame, readBinaryHeader } from './binary';
+import { AceBaseIPCClientRole } from './server';
+import { AceBaseIPCCapability, MIN_PROTOCOL_VERSION, PROTOCOL_VERSION } from './protocol';
+import { AceBaseIPCClientResponse, AceBaseIPCClientSocket, AceBaseIPCClientTransport } from './transport';
+
+/** Capabilities supported by this client, `binary` is added if the `binary` option is set */
+const CAPABILITIES: AceBaseIPCCapability[] = ['requests', 'topics', 'large-messages', 'notices', 'outbox', 'reconnect-grace', 'federation', 'compression', 'locks'];
+
+const gzip = promisify(zlib.gzip), gunzip = promisify(zlib.gunzip);
+
+export interface AceBaseIPCClientOptions {
+    /** Host of the IPC server. Default is `'localhost'` */
+    host?: string
+    /** Port of the IPC server, required unless `socketPath` or `transport` is set */
+    port?: number
+    /** Whether to connect using SSL (wss and https). Default is `false` */
+    ssl?: boolean
+    /** Unix socket the server listens on (see the server's `path` setting), `host` and `port` are ignored if set */
+    socketPath?: string
+    /**
+     * TLS options for SSL connections, eg a client certificate (`cert` and `key`, or `pfx`) for servers that require one, 
+     * or the `ca` to verify a server's self-signed certificate with
+     */
+    tls?: Pick<tls.ConnectionOptions, 'ca' | 'cert' | 'key' | 'pfx' | 'passphrase' | 'rejectUnauthorized' | 'servername'>
+    /** Name of the database to communicate about */
+    dbname: string
+    /** Unique id of this client, must be at least 5 characters long. Default is a generated id */
+    id?: string
+    /** Access token, if the server requires one */
+    token?: string
+    /** IPC role to connect with */
+    role?: AceBaseIPCClientRole
+    /** Whether to negotiate binary mode, so binary payloads can be sent with `sendBinary`. Default is `false` */
+    binary?: boolean
+    /** Time in ms to wait for replies to `request` and `ping`. Default is 30000 (30s) */
+    timeout?: number
+    /**
+     * Whether to reconnect automatically when the connection is lost, with an increasing delay between attempts
+     * (starting at `delay` ms, up to `maxDelay` ms). Default is `false`
+     */
+    reconnect?: boolean | { delay?: number, maxDelay?: number }
+    /** Whether to negotiate permessage-deflate compression with the server, if it is enabled there. Default is `true` */
+    compression?: boolean
+    /** Whether to compress large message uploads and downloads with gzip. Default is `false` */
+    gzip?: boolean
+    /**
+     * Transport to connect with instead of the network, eg an `AceBaseIPCMemoryTransport` of a server in the same process.
+     * `host`, `port`, `ssl`, `socketPath` and `tls` are ignored if set
+     */
+    transport?: AceBaseIPCClientTransport
+}
+
+export interface AceBaseIPCWelcome {
+    maxPayload: number
+    master: string | null
+    binary: boolean
+    /** Agreed protocol version, not sent by servers that don't negotiate versions */
+    version?: string
+    /** Capabilities enabled by the server, not sent by servers that don't negotiate them */
+    capabilities?: AceBaseIPCCapability[]
+}
+
+export interface AceBaseIPCRequest {
+    /** Request payload */
+    payload: string
+    /** Sends the reply to the requesting peer */
+    reply(payload: string): Promise<void>
+}
+
+/**
+ * Lock granted by the server
+ */
+export interface AceBaseIPCLockHandle {
+    /** Lock id */
+    id: string
+    /** Releases the lock */
+    release(): Promise<void>
+}
+
+interface PendingLock {
+    resolve(lock: AceBaseIPCLockHandle): void
+    reject(err: Error): void
+}
+
+interface PendingReply {
+    resolve(payload: string): void
+    reject(err: Error): void
+    timeout: NodeJS.Timeout
+}
+
+/**
+ * Client for the AceBase IPC server. Takes care of the handshake, sending and downloading large messages over
+ * http(s), and matching replies to requests.
+ *
+ * Events:
+ * - `"message"` `(payload: string | Buffer)`: message received from a peer, binary payloads are Buffers
+ * - `"request"` `(request: AceBaseIPCRequest)`: request received from a peer, reply with `request.reply`
+ * - `"peer-connect"` `(peerId: string)`: peer connected to the same database
+ * - `"peer-disconnect"` `(peerId: string)`: peer disconnected
+ * - `"peer-reconnect"` `(peerId: string)`: peer reconnected within the server's reconnect grace period
+ * - `"master"` `(peerId: string)`: peer was elected master
+ * - `"undeliverable"` `(peerId: string)`: a message sent to a disconnected peer could not be delivered
+ * - `"slow"` `(peerId: string)`: a peer can't keep up with the messages sent to it
+ * - `"throttled"` `(scope: 'client' | 'database')`: the client or its database exceeds the server's rate limits, messages are dropped until the rate is lower
+ * - `"notice"` `(text: string)`: notice sent by a server administrator
+ * - `"lock-expired"` `(id: string)`: a lock was held longer than the server allows, and released by the server
+ * - `"publish"` `(topic: string, payload: string)`: message published to a topic the client subscribed to
+ * - `"shutdown"`: the server is shutting down
+ * - `"close"`: connection was closed
+ * - `"reconnect"` `(welcome: AceBaseIPCWelcome)`: connection was restored after it was lost (requires the `reconnect` option)
+ * - `"error"` `(err: Error)`: an error occurred, only emitted if there are listeners
+ *
+ * @example
+ * const client = new AceBaseIPCClient({ port: 9163, dbname: 'mydb', role: 'worker' });
+ * client.on('message', msg => console.log(msg));
+ * await client.connect();
+ * await client.send('Hello everyone');
+ */
+export class AceBaseIPCClient extends EventEmitter {
+
+    readonly id: string;
+    /** id of the current master peer, if known */
+    master: string | null = null;
+    private ws?: AceBaseIPCClientSocket;
+    private welcome?: AceBaseIPCWelcome;
+    private pendingReplies: { [id: string]: PendingReply } = {};
+    private pendingPings: Array<() => void> = [];
+    private pendingLocks: { [id: string]: PendingLock } = {};
+    private requestCounter = 0;
+    /** Makes sure received messages are handled in order, even if some of them have to be downloaded first */
+    private queue: Promise<any> = Promise.resolve();
+    private closing = false;
+    private reconnectTimeout?: NodeJS.Timeout;
+    /** Topic subscriptions, renewed when the client reconnects */
+    private subscriptions: string[] = [];
+
+    constructor(private options: AceBaseIPCClientOptions) {
+        super();
+        this.id = options.id || `client-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+    }
+
+    /** Whether the client is connected and the handshake completed */
+    get connected() { return !!this.welcome && this.ws?.readyState === WebSocket.OPEN; }
+
+    /** Maximum payload size negotiated with the server */
+    get maxPayload() { return this.welcome?.maxPayload ?? 0; }
+
+    /** Protocol version agreed with the server */
+    get protocolVersion() { return this.welcome?.version ?? '1.0.0'; }
+
+    /**
+     * Checks whether the server enabled a protocol capability for this client. Servers that don't negotiate 
+     * capabilities are assumed to support the features of protocol version 1.0
+     */
+    hasCapability(capability: AceBaseIPCCapability) {
+        if (!this.welcome) { return false; }
+        if (!this.welcome.capabilities) { return capability === 'binary' ? this.welcome.binary : ['requests', 'large-messages'].includes(capability); }
+        return this.welcome.capabilities.includes(capability);
+    }
+
+    /**
+     * Gets the url of the server
+     * @param protocol `'ws'` for the websocket connection, `'http'` for http requests
+     */
+    private getServerUrl(protocol: 'ws' | 'http') {
+        const { host = 'localhost', port, ssl, socketPath } = this.options;
+        if (socketPath && protocol === 'ws') { return `ws+unix://${socketPath}:`; }
+        return `${protocol}${ssl ? 's' : ''}://${host}:${port}`;
+    }
+
+    /**
+     * Connects to the server, resolves once the server welcomed the client
+     */
+    connect(): Promise<AceBaseIPCWelcome> {
+        this.closing = false;
+        const { role, binary } = this.options;
+        const capabilities = binary ? CAPABILITIES.concat('binary') : CAPABILITIES;
+        const path = `/${this.options.dbname}/connect?id=${encodeURIComponent(this.id)}&v=${PROTOCOL_VERSION}&vmin=${MIN_PROTOCOL_VERSION}`
+            + `&cap=${encodeURIComponent(capabilities.join(','))}`
+            + (role ? `&role=${role}` : '')
+            + (binary ? '&bin=1' : '');
+        const { transport } = this.options;
+        const ws = transport 
+            ? transport.connect(path, this.getHeaders())
+            : new WebSocket(this.getServerUrl('ws') + path, { ...this.options.tls, headers: this.getHeaders(), perMessageDeflate: this.options.compression !== false });
+        this.ws = ws;
+        return new Promise((resolve, reject) => {
+            let welcomed = false;
+            ws.on('unexpected-response', (req, res) => {
+                reject(new Error(`Connection refused: ${res.statusCode} ${res.statusMessage}`));
+                req.destroy();
+            });
+            ws.on('error', err => {
+                welcomed ? this.reportError(err) : reject(err);
+            });
+            ws.on('close', () => {
+                this.welcome = undefined;
+                Object.keys(this.pendingReplies).forEach(id => this.rejectReply(id, new Error('Connection closed')));
+                Object.keys(this.pendingLocks).forEach(id => this.settleLock(id, new Error('Connection closed')));
+                welcomed ? this.emit('close') : reject(new Error('Connection closed'));
+                welcomed && !this.closing && this.options.reconnect && this.reconnect();
+            });
+            ws.on('message', (data: Buffer, isBinary: boolean) => {
+                if (!welcomed) {
+                    const msg = data.toString('utf8');
+                    if (!msg.startsWith('welcome:')) { return; }
+                    welcomed = true;
+                    this.welcome = JSON.parse(msg.slice(8)) as AceBaseIPCWelcome;
+                    this.master = this.welcome.master;
+                    this.subscriptions.forEach(topic => ws.send(`sub:${topic}`));
+                    return resolve(this.welcome);
+                }
+                this.queue = this.queue
+                    .then(() => isBinary ? this.handleBinaryMessage(data) : this.handleMessage(data.toString('utf8')))
+                    .catch(err => this.reportError(err));
+            });
+        });
+    }
+
+    /**
+     * Closes the connection
+     */
+    close() {
+        this.closing = true;
+        this.reconnectTimeout && clearTimeout(this.reconnectTimeout);
+        this.ws?.close();
+    }
+
+    /**
+     * Tries to reconnect until it succeeds, or `close` is called
+     */
+    private reconnect(attempt = 0) {
+        const settings = typeof this.options.reconnect === 'object' ? this.options.reconnect : {};
+        const delay = Math.min((settings.delay || 1000) * Math.pow(2, attempt), settings.maxDelay || 30e3);
+        this.reconnectTimeout = setTimeout(async () => {
+            if (this.closing) { return; }
+            try {
+                const welcome = await this.connect();
+                this.emit('reconnect', welcome);
+            }
+            catch (err) {
+                this.reconnect(attempt + 1);
+            }
+        }, delay);
+    }
+
+    /**
+     * Sends a message to a specific peer, or to all other peers if `to` is omitted.
+     * Messages that are too large to be sent over the websocket connection are POSTed to the server automatically
+     */
+    async send(payload: string, to?: string) {
+        return this.sendText((to ? `to:${to};` : '') + payload);
+    }
+
+    /**
+     * Sends a binary payload to a specific peer, or to all other peers if `to` is omitted. Requires binary mode
+     */
+    async sendBinary(payload: Uint8Array, to?: string) {
+        if (!this.welcome?.binary) { throw new Error('Binary mode was not negotiated with the server'); }
+        const frame = createBinaryFrame(to ? BinaryFrameType.Directed : BinaryFrameType.Broadcast, to || '', payload);
+        if (frame.length > this.maxPayload) {
+            return this.post(frame, 'application/octet-stream');
+        }
+        this.getSocket().send(frame); // Buffers are sent as binary frames
+    }
+
+    /**
+     * Subscribes to messages published to a topic. Topics are path-style, use `*` or `$name` to match any path segment
+     * and a trailing `**` to match any number of segments, eg `"users/$uid/**"`
+     */
+    async subscribe(topic: string) {
+        if (!this.hasCapability('topics')) { throw new Error('Server does not support topics'); }
+        if (this.subscriptions.includes(topic)) { return; }
+        this.getSocket().send(`sub:${topic}`);
+        this.subscriptions.push(topic);
+    }
+
+    /**
+     * Cancels a topic subscription
+     */
+    async unsubscribe(topic: string) {
+        const index = this.subscriptions.indexOf(topic);
+        if (index < 0) { return; }
+        this.getSocket().send(`unsub:${topic}`);
+        this.subscriptions.splice(index, 1);
+    }
+
+    /**
+     * Publishes a message to all other peers that subscribed to the topic
+     */
+    async publish(topic: string, payload: string) {
+        return this.sendText(`pub:${topic};${payload}`);
+    }
+
+    /**
+     * Gets the topic subscriptions of all peers connected to the same database
+     */
+    async getSubscriptions(): Promise<{ [peerId: string]: string[] }> {
+        const data = await this.fetch('GET', `/subscriptions`);
+        return JSON.parse(data.toString('utf8'));
+    }
+
+    /**
+     * Sends a request to a peer and waits for its reply
+     * @returns the reply payload
+     */
+    request(to: string, payload: string): Promise<string> {
+        const id = (++this.requestCounter).toString(36);
+        return new Promise<string>((resolve, reject) => {
+            // Server sends "timeout:" itself, this is a fallback in case the connection hangs
+            const timeout = setTimeout(() => this.rejectReply(id, new Error(`Request ${id} timed out`)), (this.options.timeout || 30e3) + 5000);
+            this.pendingReplies[id] = { resolve, reject, timeout };
+            this.sendText(`req:${id};to:${to};${payload}`).catch(err => this.rejectReply(id, err));
+        });
+    }
+
+    /**
+     * Requests a lock on a path from the server's lock service, and waits until it is granted. Requires the `locks` capability
+     * @param options `write` for an exclusive lock (default is shared), `tid` to group locks of a transaction, they don't conflict with each other
+     */
+    lock(path: string, options: { write?: boolean, tid?: string } = {}): Promise<AceBaseIPCLockHandle> {
+        if (!this.hasCapability('locks')) { return Promise.reject(new Error('Server does not provide locks')); }
+        const id = (++this.requestCounter).toString(36);
+        return new Promise<AceBaseIPCLockHandle>((resolve, reject) => {
+            this.pendingLocks[id] = { resolve, reject };
+            this.sendText(`lock:${id};${JSON.stringify({ path, write: options.write === true, tid: options.tid })}`).catch(err => this.settleLock(id, err));
+        });
+    }
+
+    /**
+     * Checks the connection with the server
+     * @returns roundtrip time in ms
+     */
+    ping(): Promise<number> {
+        const start = Date.now();
+        return new Promise<number>((resolve, reject) => {
+            // Throws if the client is not connected, before a timer and pong handler are registered
+            const socket = this.getSocket();
+            const timeout = setTimeout(() => {
+                this.pendingPings.splice(this.pendingPings.indexOf(pong), 1);
+                reject(new Error('Ping timed out'));
+            }, this.options.timeout || 30e3);
+            const pong = () => {
+                clearTimeout(timeout);
+                resolve(Date.now() - start);
+            };
+            this.pendingPings.push(pong);
+            socket.send('ping');
+        });
+    }
+
+    /**
+     * Gets the peers connected to the same database
+     */
+    async getPeers(): Promise<Array<{ id: string, role?: AceBaseIPCClientRole, connected: number }>> {
+        const data = await this.fetch('GET', `/clients`);
+        return JSON.parse(data.toString('utf8'));
+    }
+
+    private getSocket() {
+        if (!this.ws || !this.connected) { throw new Error('Not connected'); }
+        return this.ws;
+    }
+
+    private async sendText(msg: string) {
+        if (Buffer.byteLength(msg) > this.maxPayload) {
+            return this.post(Buffer.from(msg, 'utf8'), 'text/plain');
+        }
+        this.getSocket().send(msg);
+    }
+
+    private async post(data: Buffer, contentType: string) {
+        this.getSocket(); // Throws if not connected
+        await this.fetch('POST', `/send?id=${encodeURIComponent(this.id)}`, data, contentType);
+    }
+
+    private async download(msgId: string) {
+        return this.fetch('GET', `/receive?id=${encodeURIComponent(this.id)}&msg=${msgId}`);
+    }
+
+    /**
+     * Emits an error as `"error"` event if there are listeners, an unhandled `"error"` event would crash the process
+     */
+    private reportError(err: Error) {
+        this.listenerCount('error') > 0 && this.emit('error', err);
+    }
+
+    private rejectReply(id: string, err: Error) {
+        const pending = this.pendingReplies[id];
+        if (!pending) { return; }
+        clearTimeout(pending.timeout);
+        delete this.pendingReplies[id];
+        pending.reject(err);
+    }
+
+    /**
+     * Resolves or rejects a pending lock request
+     * @param err error if the lock was refused
+     */
+    private settleLock(id: string, err?: Error) {
+        const pending = this.pendingLocks[id];
+        if (!pending) { return; }
+        delete this.pendingLocks[id];
+        if (err) { return pending.reject(err); }
+        pending.resolve({ id, release: () => this.sendText(`unlock:${id}`) });
+    }
+
+    /**
+     * Downloads the payload if it is a download instruction (`"get:[msgId]"`)
+     */
+    private async resolvePayload(payload: string) {
+        return payload.startsWith('get:') ? (await this.download(payload.slice(4))).toString('utf8') : payload;
+    }
+
+    private async handleMessage(msg: string) {
+        const i = msg.indexOf(':'), type = i > 0 ? msg.slice(0, i) : '', value = msg.slice(i + 1);
+        switch (type) {
+            case 'connect': {
+                const [peerId, master] = value.split(';master:');
+                if (master) { this.master = master; }
+                return this.emit('peer-connect', peerId);
+            }
+            case 'disconnect': {
+                if (value === this.master) { this.master = null; }
+                return this.emit('peer-disconnect', value);
+            }
+            case 'reconnect': {
+                const [peerId, master] = value.split(';master:');
+                if (master) { this.master = master; }
+                return this.emit('peer-reconnect', peerId);
+            }
+            case 'master': {
+                this.master = value;
+                return this.emit('master', value);
+            }
+            case 'shutdown': return this.emit('shutdown');
+            case 'undeliverable': return this.emit('undeliverable', value);
+            case 'slow': return this.emit('slow', value);
+            case 'throttled': return this.emit('throttled', value);
+            case 'notice': return this.emit('notice', value);
+            case 'locked': return this.settleLock(value);
+            case 'lockexpired': return this.emit('lock-expired', value);
+            case 'lockerr': {
+                const [id, reason] = value.split(';');
+                return this.settleLock(id, new Error(`Lock ${id} refused: ${reason}`));
+            }
+            case 'nopeer': return this.rejectReply(value, new Error(`Peer for request ${value} is not connected`));
+            case 'timeout': return this.rejectReply(value, new Error(`Request ${value} timed out`));
+            case 'req': {
+                const [id, ...rest] = value.split(';');
+                const payload = await this.resolvePayload(rest.join(';'));
+                const request: AceBaseIPCRequest = {
+                    payload,
+                    reply: (payload: string) => this.sendText(`res:${id};${payload}`),
+                };
+                return this.emit('request', request);
+            }
+            case 'res': {
+                const [id, ...rest] = value.split(';');
+                const pending = this.pendingReplies[id];
+                if (!pending) { return; }
+                clearTimeout(pending.timeout);
+                delete this.pendingReplies[id];
+                return pending.resolve(await this.resolvePayload(rest.join(';')));
+            }
+            case 'pub': {
+                const i = value.indexOf(';');
+                return this.emit('publish', value.slice(0, i), await this.resolvePayload(value.slice(i + 1)));
+            }
+            case 'get': {
+                const payload = await this.download(value);
+                return this.emit('message', payload.toString('utf8'));
+            }
+            case 'msg': return this.emit('message', JSON.parse(value));
+        }
+        if (msg === 'pong') {
+            const pong = this.pendingPings.shift();
+            return pong && pong();
+        }
+        this.emit('message', msg);
+    }
+
+    private async handleBinaryMessage(data: Buffer) {
+        const header = readBinaryHeader(data);
+        if (!header) { return; }
+        if (header.type === BinaryFrameType.Download) {
+            return this.emit('message', await this.download(header.id));
+        }
+        this.emit('message', data.slice(header.length));
+    }
+
+    private getHeaders() {
+        const headers: { [name: string]: string } = {};
+        if (this.options.token) { headers.authorization = `Bearer ${this.options.token}`; }
+        return headers;
+    }
+
+    private async fetch(method: 'GET' | 'POST', path: string, postData?: Buffer, contentType?: string) {
+        path = `/${this.options.dbname}${path}`;
+        const headers = this.getHeaders();
+        if (this.options.gzip) {
+            headers['accept-encoding'] = 'gzip';
+        }
+        if (postData) {
+            if (this.options.gzip) {
+                postData = await gzip(postData);
+                headers['content-encoding'] = 'gzip';
+            }
+            headers['content-type'] = contentType as string;
+            headers['content-length'] = postData.length.toString();
+        }
+        const { transport } = this.options;
+        const response = transport ? await transport.request(method, path, headers, postData) : await this.httpRequest(method, path, headers, postData);
+        if (response.status !== 200) {
+            throw new Error(`${method} ${path.split('?')[0]} failed: ${response.status} ${response.body.toString('utf8')}`);
+        }
+        return response.headers['content-encoding'] === 'gzip' ? gunzip(response.body) : response.body;
+    }
+
+    private httpRequest(method: 'GET' | 'POST', path: string, headers: { [name: string]: string }, postData?: Buffer) {
+        return new Promise<AceBaseIPCClientResponse>((resolve, reject) => {
+            const url = new URL(this.getServerUrl('http') + path);
+            const req = (this.options.ssl ? https : http).request(url, { ...this.options.tls, method, headers, socketPath: this.options.socketPath }, res => {
+                const chunks: Buffer[] = [];
+                res.on('data', chunk => chunks.push(chunk));
+                res.on('end', () => {
+                    resolve({ status: res.statusCode as number, headers: res.headers as { [name: string]: string }, body: Buffer.concat(chunks) });
+                });
+                res.on('error', reject);
+            });
+            req.on('error', reject);
+            req.end(postData);
+        });
+    }
+}
@@ -0,0 +1,270 @@
+import fs from 'fs';
+import path from 'path';
+import { AceBaseIPCServerConfig } from './server';
+import { LogLevel } from './logger';
+
+/**
+ * Server settings that can be read from a configuration file, environment variables or startup args: all server settings
+ * except callbacks and class instances, plus the settings of the console logger and graceful stop
+ */
+export interface AceBaseIPCServerSettings extends Omit<AceBaseIPCServerConfig, 'logger' | 'authenticate' | 'transports'> {
+    /** Console logger settings */
+    log?: { level?: LogLevel, format?: 'text' | 'json', payloads?: 'redact' | 'truncate' | 'full' }
+    /** Maximum time in ms to wait for pending large messages to be downloaded when the server is stopped. Default is 5000 */
+    drainTimeout?: number
+}
+
+type Schema =
+    | { type: 'string' | 'boolean' }
+    | { type: 'number', min?: number }
+    | { type: 'enum', values: Array<string | boolean> }
+    | { type: 'array', items: Schema }
+    | { type: 'object', properties: { [name: string]: Schema }, required?: string[] }
+    | { type: 'record', values: Schema }
+    | { type: 'oneOf', options: Schema[] };
+
+const string: Schema = { type: 'string' };
+const boolean: Schema = { type: 'boolean' };
+const number = (min = 0): Schema => ({ type: 'number', min });
+const oneOf = (...values: Array<string | boolean>): Schema => ({ type: 'enum', values });
+const object = (properties: { [name: string]: Schema }, required?: string[]): Schema => ({ type: 'object', properties, required });
+
+const rateLimit = object({ messages: number(), bytes: number(), burst: number() });
+
+/** Schema of `AceBaseIPCServerSettings` */
+const SETTINGS = object({
+    host: string,
+    port: number(),
+    path: string,
+    ssl: object({
+        certPath: string, keyPath: string, pfxPath: string, passphrase: string, caPath: string,
+        clientCertificates: { type: 'record', values: { type: 'array', items: string } },
+        watch: boolean
+    }),
+    maxPayload: number(1),
+    maxBodySize: number(1),
+    token: string,
+    tokens: { type: 'record', values: { type: 'array', items: object({ token: string, roles: { type: 'array', items: oneOf('master', 'worker') } }, ['token']) } },
+    masterElection: boolean,
+    outbox: object({ ttl: number(), maxBytes: number() }),
+    requestTimeout: number(),
+    largeMessages: object({ type: oneOf('memory', 'disk'), path: string, maxBytes: number(), ttl: number() }),
+    idleTimeout: number(),
+    reconnectGracePeriod: number(),
+    backpressure: object({ maxBackpressure: number(), policy: oneOf('buffer', 'drop-oldest', 'disconnect'), maxBufferSize: number() }),
+    federation: object({ id: string, peers: { type: 'array', items: string }, token: string, reconnectDelay: number() }, ['peers']),
+    adminToken: string,
+    recorder: object({ path: string, payloads: boolean, maxFileSize: number(1), maxFiles: number(1) }, ['path']),
+    websocket: object({ compression: oneOf('disabled', 'shared', 'dedicated'), compressionThreshold: number(), maxBackpressure: number(), idleTimeout: number() }),
+    gzip: boolean,
+    rateLimit: object({
+        client: rateLimit,
+        database: rateLimit,
+        failedUpgrades: { type: 'oneOf', options: [oneOf(false), object({ maxAttempts: number(1), window: number(), blockDuration: number() })] }
+    }),
+    locks: object({ timeout: number(), waitTimeout: number() }),
+    log: object({ level: oneOf('error', 'warn', 'info', 'debug', 'trace'), format: oneOf('text', 'json'), payloads: oneOf('redact', 'truncate', 'full') }),
+    drainTimeout: number()
+}, ['port']);
+
+const isRecord = (value: unknown): value is { [key: string]: unknown } => typeof value === 'object' && value !== null && !(value instanceof Array);
+
+function validate(value: unknown, schema: Schema, name: string, errors: string[]) {
+    const describe = (value: unknown) => JSON.stringify(value) ?? String(value);
+    switch (schema.type) {
+        case 'string':
+        case 'boolean': {
+            if (typeof value !== schema.type) { errors.push(`${name} must be a ${schema.type}, got ${describe(value)}`); }
+            break;
+        }
+        case 'number': {
+            if (typeof value !== 'number' || isNaN(value)) { errors.push(`${name} must be a number, got ${describe(value)}`); }
+            else if (typeof schema.min === 'number' && value < schema.min) { errors.push(`${name} must be ${schema.min} or more, got ${value}`); }
+            break;
+        }
+        case 'enum': {
+            if (!schema.values.some(allowed => allowed === value)) { errors.push(`${name} must be ${schema.values.map(describe).join(', ').replace(/, ([^,]+)$/, ' or $1')}, got ${describe(value)}`); }
+            break;
+        }
+        case 'array': {
+            if (!(value instanceof Array)) { errors.push(`${name} must be an array, got ${describe(value)}`); }
+            else { value.forEach((item, i) => validate(item, schema.items, `${name}[${i}]`, errors)); }
+            break;
+        }
+        case 'object':
+        case 'record': {
+            if (!isRecord(value)) {
+                errors.push(`${name || 'Settings'} must be an object, got ${describe(value)}`);
+                break;
+            }
+            const prefix = name ? `${name}.` : '';
+            if (schema.type === 'record') {
+                Object.keys(value).forEach(key => validate(value[key], schema.values, `${prefix}${key}`, errors));
+                break;
+            }
+            (schema.required || []).filter(key => typeof value[key] === 'undefined').forEach(key => errors.push(`${prefix}${key} is required`));
+            Object.keys(value).forEach(key => {
+                if (!(key in schema.properties)) { errors.push(`Unknown setting ${prefix}${key}`); }
+                else if (typeof value[key] !== 'undefined') { validate(value[key], schema.properties[key], `${prefix}${key}`, errors); }
+            });
+            break;
+        }
+        case 'oneOf': {
+            const results = schema.options.map(option => {
+                const optionErrors: string[] = [];
+                validate(value, option, name, optionErrors);
+                return optionErrors;
+            });
+            if (!results.some(optionErrors => optionErrors.length === 0)) {
+                // Report the errors of the option that matches best
+                errors.push(...results.sort((a, b) => a.length - b.length)[0]);
+            }
+            break;
+        }
+    }
+}
+
+/**
+ * Validates settings against the schema
+ * @returns whether no errors were added, the settings have the right types then
+ */
+function isSettings(settings: unknown, errors: string[]): settings is AceBaseIPCServerSettings {
+    validate(settings, SETTINGS, '', errors);
+    return errors.length === 0;
+}
+
+/**
+ * Validates server settings
+ * @returns descriptions of all invalid settings, empty if the settings are valid
+ */
+export function validateSettings(settings: unknown) {
+    const errors: string[] = [];
+    if (!isSettings(settings, errors)) {
+        // Settings of the wrong types can't be checked any further
+        return errors;
+    }
+    if (settings.ssl && !settings.ssl.pfxPath && (!settings.ssl.certPath || !settings.ssl.keyPath)) {
+        errors.push(`ssl requires certPath and keyPath, or pfxPath`);
+    }
+    if (settings.ssl?.clientCertificates && !settings.ssl.caPath) {
+        errors.push(`ssl.clientCertificates requires ssl.caPath`);
+    }
+    if (settings.federation && !settings.federation.token && !settings.token) {
+        errors.push(`federation requires federation.token or token`);
+    }
+    if (settings.federation && settings.locks) {
+        errors.push(`locks can't be used with federation`);
+    }
+    return errors;
+}
+
+/**
+ * Reads settings from a JSON or YAML file. YAML files require the `yaml` package to be installed
+ */
+export function readSettingsFile(file: string): AceBaseIPCServerSettings {
+    const content = fs.readFileSync(file, 'utf8');
+    if (['.yaml', '.yml'].includes(path.extname(file).toLowerCase())) {
+        let yaml;
+        try {
+            yaml = require('yaml');
+        }
+        catch (err) {
+            throw new Error(`Reading YAML configuration file ${file} requires the yaml package, install it with "npm install yaml"`);
+        }
+        return yaml.parse(content) || {};
+    }
+    try {
+        return JSON.parse(content);
+    }
+    catch (err) {
+        throw new Error(`Configuration file ${file} is not valid JSON: ${err instanceof Error ? err.message : err}`);
+    }
+}
+
+type Parser = (value: string) => any;
+const text: Parser = value => value;
+const lowercase: Parser = value => value.toLowerCase();
+const numeric: Parser = value => isNaN(+value) ? value : +value; // Invalid numbers are left as string, validation reports them
+const flag: Parser = value => ['1', 'true', 'yes'].includes(value.toLowerCase()) ? true : ['0', 'false', 'no'].includes(value.toLowerCase()) ? false : value;
+const list: Parser = value => value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+
+/**
+ * Environment variables (or startup args) and the settings they map to
+ */
+export const ENVIRONMENT_VARIABLES: Array<{ name: string, setting: string, parse: Parser, description: string }> = [
+    { name: 'HOST', setting: 'host', parse: text, description: 'Host name or ip address to listen on. Default is all interfaces' },
+    { name: 'PORT', setting: 'port', parse: numeric, description: 'Port to listen on. Default is 9163' },
+    { name: 'SOCKET_PATH', setting: 'path', parse: text, description: 'Unix socket to listen on instead of HOST and PORT' },
+    { name: 'SSL', setting: '', parse: flag, description: 'Whether to use SSL, with KEY_PATH and CERT_PATH or PFX_PATH and PASSPHRASE' },
+    { name: 'KEY_PATH', setting: 'ssl.keyPath', parse: text, description: 'SSL private key file' },
+    { name: 'CERT_PATH', setting: 'ssl.certPath', parse: text, description: 'SSL certificate file' },
+    { name: 'PFX_PATH', setting: 'ssl.pfxPath', parse: text, description: 'SSL PFX file' },
+    { name: 'PASSPHRASE', setting: 'ssl.passphrase', parse: text, description: 'Passphrase of the SSL private key or PFX file' },
+    { name: 'CA_PATH', setting: 'ssl.caPath', parse: text, description: 'CA certificates to verify client certificates with, enables mutual TLS' },
+    { name: 'TOKEN', setting: 'token', parse: text, description: 'Access token clients must use' },
+    { name: 'ADMIN_TOKEN', setting: 'adminToken', parse: text, description: 'Access token of the admin API, disabled if not set' },
+    { name: 'MAX_PAYLOAD', setting: 'maxPayload', parse: numeric, description: 'Maximum websocket message size in bytes' },
+    { name: 'MAX_BODY_SIZE', setting: 'maxBodySize', parse: numeric, description: 'Maximum size in bytes of large messages' },
+    { name: 'DRAIN_TIMEOUT', setting: 'drainTimeout', parse: numeric, description: 'Time in ms to wait for large messages to be downloaded when stopping' },
+    { name: 'IDLE_TIMEOUT', setting: 'idleTimeout', parse: numeric, description: 'Time in ms before silent clients are disconnected' },
+    { name: 'RECONNECT_GRACE_PERIOD', setting: 'reconnectGracePeriod', parse: numeric, description: 'Time in ms to wait for disconnected clients to reconnect' },
+    { name: 'RECORD_PATH', setting: 'recorder.path', parse: text, description: 'File to record traffic to' },
+    { name: 'RECORD_PAYLOADS', setting: 'recorder.payloads', parse: flag, description: 'Whether to record message payloads' },
+    { name: 'FEDERATION_PEERS', setting: 'federation.peers', parse: list, description: 'Comma separated urls of the other servers in the federation' },
+    { name: 'FEDERATION_ID', setting: 'federation.id', parse: text, description: 'Unique id of this server in the federation' },
+    { name: 'FEDERATION_TOKEN', setting: 'federation.token', parse: text, description: 'Token servers in the federation authenticate with' },
+    { name: 'BACKPRESSURE_POLICY', setting: 'backpressure.policy', parse: lowercase, description: 'What to do with slow clients: buffer, drop-oldest or disconnect' },
+    { name: 'WS_COMPRESSION', setting: 'websocket.compression', parse: lowercase, description: 'Websocket compression: disabled, shared or dedicated' },
+    { name: 'WS_COMPRESSION_THRESHOLD', setting: 'websocket.compressionThreshold', parse: numeric, description: 'Minimum size in bytes of messages to compress' },
+    { name: 'WS_MAX_BACKPRESSURE', setting: 'websocket.maxBackpressure', parse: numeric, description: 'uWebSockets.js maxBackpressure setting' },
+    { name: 'WS_IDLE_TIMEOUT', setting: 'websocket.idleTimeout', parse: numeric, description: 'uWebSockets.js idleTimeout setting in seconds' },
+    { name: 'GZIP', setting: 'gzip', parse: flag, description: 'Whether to gzip large message downloads' },
+    { name: 'RATE_LIMIT_CLIENT_MESSAGES', setting: 'rateLimit.client.messages', parse: numeric, description: 'Maximum messages per second per client' },
+    { name: 'RATE_LIMIT_CLIENT_BYTES', setting: 'rateLimit.client.bytes', parse: numeric, description: 'Maximum bytes per second per client' },
+    { name: 'RATE_LIMIT_DATABASE_MESSAGES', setting: 'rateLimit.database.messages', parse: numeric, description: 'Maximum messages per second per database' },
+    { name: 'RATE_LIMIT_DATABASE_BYTES', setting: 'rateLimit.database.bytes', parse: numeric, description: 'Maximum bytes per second per database' },
+    { name: 'BLOCK_FAILED_CONNECTS', setting: 'rateLimit.failedUpgrades', parse: value => flag(value) === true ? undefined : flag(value), description: 'Whether to block addresses with too many failed connection attempts' },
+    { name: 'LOCKS', setting: '', parse: flag, description: 'Whether to enable the lock service' },
+    { name: 'LOCK_TIMEOUT', setting: 'locks.timeout', parse: numeric, description: 'Maximum time in ms a lock can be held' },
+    { name: 'LOG_LEVEL', setting: 'log.level', parse: lowercase, description: 'error, warn, info, debug or trace' },
+    { name: 'LOG_FORMAT', setting: 'log.format', parse: lowercase, description: 'text or json' },
+    { name: 'LOG_PAYLOADS', setting: 'log.payloads', parse: lowercase, description: 'redact, truncate or full' },
+];
+
+/**
+ * Applies settings of environment variables and startup args (in the form `NAME=value`, these take precedence) to a copy of
+ * given settings. Empty values are ignored
+ */
+export function applyEnvironment(settings: AceBaseIPCServerSettings, args: string[], env: NodeJS.ProcessEnv): AceBaseIPCServerSettings {
+    const result = JSON.parse(JSON.stringify(settings));
+    const getValue = (name: string) => {
+        const arg = args.find(arg => arg.toUpperCase().startsWith(`${name}=`));
+        const value = arg ? arg.slice(name.length + 1) : env[name];
+        return typeof value === 'string' && value.length > 0 ? value : undefined;
+    };
+    ENVIRONMENT_VARIABLES.forEach(variable => {
+        const value = getValue(variable.name);
+        if (!variable.setting || typeof value === 'undefined') { return; }
+        const parsed = variable.parse(value);
+        if (typeof parsed === 'undefined') { return; }
+        const keys = variable.setting.split('.');
+        const target = keys.slice(0, -1).reduce((target, key) => target[key] || (target[key] = {}), result);
+        target[keys[keys.length - 1]] = parsed;
+    });
+    const ssl = getValue('SSL');
+    if (typeof ssl !== 'undefined' && flag(ssl) === false) {
+        // SSL explicitly disabled, ignore certificate settings
+        delete result.ssl;
+    }
+    else if (typeof ssl !== 'undefined' && !result.ssl) {
+        result.ssl = {};
+    }
+    const locks = getValue('LOCKS');
+    if (typeof locks !== 'undefined' && flag(locks) === false) {
+        delete result.locks;
+    }
+    else if (typeof locks !== 'undefined' && !result.locks) {
+        result.locks = {};
+    }
+    return result;
+}
@@ -0,0 +1,333 @@
+import tls from 'tls';
+import WebSocket from 'ws';
+import { AceBaseIPCLogger } from './logger';
+import { AceBaseIPCClientRole } from './server';
+import { AceBaseIPCClientTransport } from './transport';
+
+export interface AceBaseIPCFederationConfig {
+    /** Unique id of this server within the federation. Default is a generated id */
+    id?: string
+    /**
+     * Websocket urls of the other IPC servers in the federation, eg `["ws://10.0.0.2:9163", "wss://ipc3.example.com"]`, or
+     * transports to link with them, eg the `AceBaseIPCMemoryTransport` of a server in the same process.
+     * Servers only forward messages of their own clients, so each server must be linked to all others (full mesh)
+     */
+    peers: Array<string | AceBaseIPCClientTransport>
+    /** Token servers use to authenticate with each other. Default is the server's `token`, one of them is required */
+    token?: string
+    /** Initial delay in ms before reconnecting to a peer server, doubled after each failed attempt (max 30s). Default is 1000 */
+    reconnectDelay?: number
+}
+
+/**
+ * Client connected to another server in the federation
+ */
+export interface AceBaseIPCFederatedPeer {
+    /** id of the server the client is connected to */
+    server: string
+    dbname: string
+    id: string
+    role?: AceBaseIPCClientRole
+    connected: number
+}
+
+export type FederationPresenceEvent = 'connect' | 'reconnect' | 'disconnect' | 'master';
+
+/**
+ * Callbacks the federation uses to interact with its IPC server
+ */
+export interface AceBaseIPCFederationHandler {
+    /** Gets all clients connected to the local server, they are announced to a peer server once linked */
+    getClients(): Array<{ dbname: string, id: string, role?: AceBaseIPCClientRole, connected: Date }>
+    /** A client of a peer server connected, reconnected, disconnected or was elected master */
+    presence(event: FederationPresenceEvent, peer: AceBaseIPCFederatedPeer): void
+    /** A peer server forwarded a text message from one of its clients, `to` is `null` for broadcasts, `topic` is set for published messages */
+    message(dbname: string, from: string, to: string | null, payload: string, topic?: string): void
+    /** A peer server forwarded a binary frame from one of its clients */
+    binaryMessage(dbname: string, from: string, frame: Buffer): void
+}
+
+/**
+ * Websocket connection with another server in the federation
+ */
+export interface FederationLink {
+    /** id of the linked server, empty until its `hello:` has been received */
+    server: string
+    send(data: string | Buffer, isBinary: boolean): void
+    close(): void
+    /** Makes sure messages are sent in order, even if some of them have to be read from the large message store first */
+    queue: Promise<any>
+}
+
+/**
+ * Links an IPC server with other IPC servers, so clients connected to different servers can communicate with each other.
+ *
+ * Servers link with each other over websocket connections to `/_federation?id=[serverId]`. Messages exchanged over links:
+ * - `"hello:{ id, seq, clients: [{ dbname, id, role, connected }] }"`: sent by both servers once linked, announces all their clients
+ * - `"connect:{ dbname, id, role, connected, seq }"`, `"reconnect:{...}"`, `"disconnect:{...}"` and `"master:{...}"`: presence changes of a client
+ *
+ * Servers usually have 2 links with each other, because both connect to the other. Presence changes are announced over all links,
+ * also those over which the other server's hello has not been received yet. Each announcement increments the sequence number `seq`
+ * of the announcing server, hellos carry its current number: hellos and announcements that are not newer than the last one received
+ * from the same server (duplicates, or a hello sent over the other link before the last announcement) are ignored
+ * - `"send:{ dbname, from, to, topic }\n[payload]"`: text message of a client, `to` is `null` for broadcasts, `topic` is only set for published messages
+ * - Binary messages `[headerLength: uint16][header: { dbname, from }][frame]`: binary frame of a client in binary mode
+ */
+export class AceBaseIPCFederation {
+
+    readonly id: string;
+    private links: FederationLink[] = [];
+    /** Clients connected to peer servers, by server id */
+    private peers: { [server: string]: AceBaseIPCFederatedPeer[] } = {};
+    private reconnectTimeouts: NodeJS.Timeout[] = [];
+    private stopped = true;
+    /** Sequence number of the last presence change announced by this server */
+    private seq = 0;
+    /** Sequence numbers of the last hellos or presence changes received from peer servers */
+    private received: { [server: string]: number } = {};
+
+    /**
+     * @param tlsOptions gets the TLS options to connect to peer servers with, eg a client certificate
+     */
+    constructor(private config: AceBaseIPCFederationConfig, private token: string | undefined, private handler: AceBaseIPCFederationHandler, private logger: AceBaseIPCLogger, private tlsOptions?: () => tls.ConnectionOptions) {
+        this.id = config.id || `server-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+    }
+
+    /**
+     * Connects to all configured peer servers
+     */
+    start() {
+        this.stopped = false;
+        this.config.peers.forEach(url => this.connect(url));
+    }
+
+    /**
+     * Closes all links
+     */
+    stop() {
+        this.stopped = true;
+        this.reconnectTimeouts.forEach(timeout => clearTimeout(timeout));
+        this.reconnectTimeouts = [];
+        const links = this.links;
+        this.links = [];
+        this.peers = {};
+        links.forEach(link => link.close());
+        this.received = {};
+    }
+
+    /**
+     * Connects to a peer server, and keeps reconnecting when the link is lost
+     * @param peer url of the peer server, or transport to connect to it with
+     */
+    private connect(peer: string | AceBaseIPCClientTransport, attempt = 0) {
+        const path = `/_federation?id=${encodeURIComponent(this.id)}`;
+        const headers: { [name: string]: string } = this.token ? { Authorization: `Bearer ${this.token}` } : {};
+        const url = typeof peer === 'string' ? peer : 'transport';
+        const ws = typeof peer === 'string'
+            ? new WebSocket(`${peer.replace(/\/$/, '')}${path}`, { ...this.tlsOptions?.(), headers })
+            : peer.connect(path, headers);
+        let link: FederationLink | undefined;
+        ws.on('open', () => {
+            attempt = 0;
+            // Text messages are strings and binary messages Buffers, both sockets send them as such
+            link = this.accept(data => ws.send(data), () => ws.close());
+        });
+        ws.on('unexpected-response', (req, res) => {
+            this.logger.warn(`Peer server ${url} refused federation link: ${res.statusCode} ${res.statusMessage}`);
+            req.destroy();
+        });
+        ws.on('error', err => {
+            this.logger.debug(`Federation link with ${url} failed`, { error: err });
+        });
+        ws.on('message', (data: Buffer, isBinary: boolean) => {
+            link && this.receive(link, data, isBinary);
+        });
+        ws.on('close', () => {
+            link && this.closed(link);
+            if (this.stopped) { return; }
+            const delay = Math.min((this.config.reconnectDelay || 1000) * Math.pow(2, attempt), 30e3);
+            const timeout = setTimeout(() => {
+                this.reconnectTimeouts.splice(this.reconnectTimeouts.indexOf(timeout), 1);
+                !this.stopped && this.connect(peer, attempt + 1);
+            }, delay);
+            this.reconnectTimeouts.push(timeout);
+        });
+    }
+
+    /**
+     * Adds a link with a peer server, and announces all local clients to it
+     * @param send sends data over the link
+     * @param close closes the link
+     */
+    accept(send: (data: string | Buffer, isBinary: boolean) => void, close: () => void) {
+        const link: FederationLink = { server: '', send, close, queue: Promise.resolve() };
+        this.links.push(link);
+        const clients = this.handler.getClients().map(client => ({ dbname: client.dbname, id: client.id, role: client.role, connected: client.connected.getTime() }));
+        send(`hello:${JSON.stringify({ id: this.id, seq: this.seq, clients })}`, false);
+        return link;
+    }
+
+    /**
+     * Handles the loss of a link. Clients of the linked server are considered disconnected if there is no other link with it
+     */
+    closed(link: FederationLink) {
+        const index = this.links.indexOf(link);
+        if (index < 0) { return; }
+        this.links.splice(index, 1);
+        if (!link.server || this.getLink(link.server)) { return; }
+        this.logger.warn(`Federation link with server ${link.server} lost`);
+        const peers = this.peers[link.server] || [];
+        delete this.peers[link.server];
+        delete this.received[link.server];
+        peers.forEach(peer => this.handler.presence('disconnect', peer));
+    }
+
+    /**
+     * Handles data received over a link
+     */
+    receive(link: FederationLink, data: Buffer, isBinary: boolean) {
+        try {
+            if (isBinary) {
+                const headerLength = data.readUInt16BE(0);
+                const header = JSON.parse(data.slice(2, 2 + headerLength).toString('utf8'));
+                return this.handler.binaryMessage(header.dbname, header.from, data.slice(2 + headerLength));
+            }
+            const msg = data.toString('utf8');
+            if (msg.startsWith('send:')) {
+                const i = msg.indexOf('\n');
+                const header = JSON.parse(msg.slice(5, i));
+                return this.handler.message(header.dbname, header.from, header.to, msg.slice(i + 1), header.topic);
+            }
+            const i = msg.indexOf(':');
+            const type = msg.slice(0, i), value = JSON.parse(msg.slice(i + 1));
+            if (type === 'hello') {
+                return this.hello(link, value.id, value.seq, value.clients);
+            }
+            if (!link.server) { return; }
+            if (['connect', 'reconnect', 'disconnect', 'master'].includes(type)) {
+                this.updatePresence(link.server, type as FederationPresenceEvent, value);
+            }
+        }
+        catch (err) {
+            this.logger.error(`Error handling federation message`, { server: link.server, error: err });
+        }
+    }
+
+    /**
+     * Checks whether a hello or presence change received from a peer server is newer than the last one, and remembers its sequence number.
+     * Servers that don't send sequence numbers are always up to date
+     */
+    private isNewer(server: string, seq?: number) {
+        if (typeof seq !== 'number') { return true; }
+        if (server in this.received && seq <= this.received[server]) { return false; }
+        this.received[server] = seq;
+        return true;
+    }
+
+    private hello(link: FederationLink, server: string, seq: number | undefined, clients: Array<Omit<AceBaseIPCFederatedPeer, 'server'>>) {
+        if (server === this.id) {
+            // Linked to ourselves, the peers setting contains our own url
+            this.logger.warn(`Federation peer server is this server itself, closing link`);
+            this.links.splice(this.links.indexOf(link), 1);
+            return link.close();
+        }
+        const linked = !!this.getLink(server);
+        link.server = server;
+        if (!this.isNewer(server, seq)) {
+            // Hello over a second link, sent before presence changes that were already received over the first one
+            return;
+        }
+        linked || this.logger.info(`Federation link with server ${server} established`);
+        const previous = this.peers[server] || [];
+        const peers = clients.map(client => ({ ...client, server }));
+        this.peers[server] = peers;
+        previous
+            .filter(peer => !peers.some(p => p.dbname === peer.dbname && p.id === peer.id))
+            .forEach(peer => this.handler.presence('disconnect', peer));
+        peers
+            .filter(peer => !previous.some(p => p.dbname === peer.dbname && p.id === peer.id))
+            .forEach(peer => this.handler.presence('connect', peer));
+    }
+
+    private updatePresence(server: string, event: FederationPresenceEvent, client: Omit<AceBaseIPCFederatedPeer, 'server'> & { seq?: number }) {
+        if (!this.isNewer(server, client.seq)) { return; }
+        const peers = this.peers[server] || (this.peers[server] = []);
+        const index = peers.findIndex(peer => peer.dbname === client.dbname && peer.id === client.id);
+        const { seq, ...details } = client;
+        const peer = { ...details, server };
+        if (event === 'disconnect') {
+            index >= 0 && peers.splice(index, 1);
+        }
+        else if (index >= 0) {
+            peers[index] = peer;
+        }
+        else {
+            peers.push(peer);
+        }
+        this.handler.presence(event, peer);
+    }
+
+    /**
+     * Announces a presence change of a local client to all peer servers
+     */
+    announce(event: FederationPresenceEvent, client: { dbname: string, id: string, role?: AceBaseIPCClientRole, connected: Date }) {
+        const data = `${event}:${JSON.stringify({ dbname: client.dbname, id: client.id, role: client.role, connected: client.connected.getTime(), seq: ++this.seq })}`;
+        this.links.forEach(link => this.write(link, data, false));
+    }
+
+    /**
+     * Gets the clients of a database that are connected to peer servers
+     */
+    getClients(dbname: string) {
+        return Object.keys(this.peers).reduce((all, server) => all.concat(this.peers[server].filter(peer => peer.dbname === dbname)), [] as AceBaseIPCFederatedPeer[]);
+    }
+
+    /**
+     * Gets the ids of linked servers, optionally only those with clients connected to a database, or with a specific client
+     */
+    getServers(dbname?: string, clientId?: string) {
+        return Object.keys(this.peers).filter(server => {
+            if (!this.getLink(server)) { return false; }
+            return typeof dbname === 'undefined' || this.peers[server].some(peer => peer.dbname === dbname && (typeof clientId === 'undefined' || peer.id === clientId));
+        });
+    }
+
+    /**
+     * Forwards a text message of a local client to a peer server
+     * @param payload message to forward, or a promise that resolves with it. Nothing is sent if it is (or resolves with) `null`
+     * @param topic topic the message was published to, if any
+     */
+    send(server: string, dbname: string, from: string, to: string | null, payload: string | null | Promise<string | null>, topic?: string) {
+        this.enqueue(server, Promise.resolve(payload).then(payload => payload === null ? null : `send:${JSON.stringify({ dbname, from, to, topic })}\n${payload}`), false);
+    }
+
+    /**
+     * Forwards a binary frame of a local client to a peer server
+     * @param frame frame to forward, or a promise that resolves with it. Nothing is sent if it is (or resolves with) `null`
+     */
+    sendBinary(server: string, dbname: string, from: string, frame: Buffer | null | Promise<Buffer | null>) {
+        this.enqueue(server, Promise.resolve(frame).then(frame => {
+            if (frame === null) { return null; }
+            const header = Buffer.from(JSON.stringify({ dbname, from }), 'utf8');
+            const length = Buffer.alloc(2);
+            length.writeUInt16BE(header.length, 0);
+            return Buffer.concat([length, header, frame]);
+        }), true);
+    }
+
+    private getLink(server: string) {
+        return this.links.find(link => link.server === server);
+    }
+
+    private enqueue(server: string, data: string | null | Promise<string | Buffer | null>, isBinary: boolean) {
+        const link = this.getLink(server);
+        link && this.write(link, data, isBinary);
+    }
+
+    private write(link: FederationLink, data: string | null | Promise<string | Buffer | null>, isBinary: boolean) {
+        link.queue = link.queue
+            .then(() => data)
+            .then(data => data !== null && this.links.includes(link) && link.send(data, isBinary))
+            .catch(err => this.logger.error(`Error forwarding message to server ${link.server}`, { error: err }));
+    }
+}
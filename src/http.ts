@@ -0,0 +1,73 @@
+import { Readable } from 'stream';
+import { AceBaseIPCLogger } from './logger';
+import { AceBaseIPCHttpResponse } from './transport';
+
+/**
+ * Streams data to a http response, respecting back pressure. The stream is destroyed once all data has been sent
+ * @param res response to stream to. Caller must destroy the stream if the response is aborted
+ * @param stream stream to read from
+ * @param totalSize total amount of bytes the stream will produce
+ * @param logger logger to report stream errors to
+ */
+export function streamResponse(res: AceBaseIPCHttpResponse, stream: Readable, totalSize: number, logger: AceBaseIPCLogger) {
+    if (totalSize === 0) {
+        stream.destroy();
+        return res.end();
+    }
+    let pending: ArrayBuffer, pendingOffset = 0;
+    stream.on('data', (chunk: Buffer) => {
+        // Copy chunk into its own ArrayBuffer, Buffers may share their underlying memory
+        const ab = chunk.buffer.slice(chunk.byteOffset, chunk.byteOffset + chunk.byteLength);
+        const lastOffset = res.getWriteOffset();
+        const [ok, done] = res.tryEnd(ab, totalSize);
+        if (done) {
+            stream.destroy();
+        }
+        else if (!ok) {
+            // Back pressure, wait until the response is writable again
+            stream.pause();
+            pending = ab;
+            pendingOffset = lastOffset;
+            res.onWritable((offset: number) => {
+                const [ok, done] = res.tryEnd(pending.slice(offset - pendingOffset), totalSize);
+                if (done) {
+                    stream.destroy();
+                }
+                else if (ok) {
+                    stream.resume();
+                }
+                return ok;
+            });
+        }
+    });
+    stream.on('error', err => {
+        logger.error(`Error streaming response`, { error: err });
+        res.close();
+    });
+}
+
+/**
+ * Streams data of unknown size to a http response using chunked transfer encoding, respecting back pressure.
+ * The response is ended once the stream ends
+ * @param res response to stream to. Caller must destroy the stream if the response is aborted
+ * @param stream stream to read from
+ * @param logger logger to report stream errors to
+ */
+export function streamChunkedResponse(res: AceBaseIPCHttpResponse, stream: Readable, logger: AceBaseIPCLogger) {
+    stream.on('data', (chunk: Buffer) => {
+        const ab = chunk.buffer.slice(chunk.byteOffset, chunk.byteOffset + chunk.byteLength);
+        if (!res.write(ab)) {
+            // Back pressure, uWS buffered the chunk. Wait until the response is writable again
+            stream.pause();
+            res.onWritable(() => {
+                stream.resume();
+                return true;
+            });
+        }
+    });
+    stream.on('end', () => res.end());
+    stream.on('error', err => {
+        logger.error(`Error streaming response`, { error: err });
+        res.close();
+    });
+}
@@ -1 +1,18 @@
-export { AceBaseIPCServer, AceBaseIPCServerConfig } from "./server";
\ No newline at end of file
+export { AceBaseIPCServer, AceBaseIPCServerConfig, AceBaseIPCClientRole, AceBaseIPCClientInfo, AceBaseIPCMessageContext, AceBaseIPCMiddleware, AceBaseIPCLargeMessageInfo, AceBaseIPCConnectionData } from "./server";
+export { AceBaseIPCServerSettings, validateSettings, readSettingsFile, applyEnvironment } from "./config";
+export { AceBaseIPCClient, AceBaseIPCClientOptions, AceBaseIPCWelcome, AceBaseIPCRequest, AceBaseIPCLockHandle } from "./client";
+export { AceBaseIPCAuthenticateCallback, AceBaseIPCCredentials, AceBaseIPCTokens, AceBaseIPCTokenSettings } from "./auth";
+export { AceBaseIPCOutboxConfig } from "./outbox";
+export { AceBaseIPCRateLimitConfig, AceBaseIPCRateLimit } from "./rate-limit";
+export { AceBaseIPCSSLConfig } from "./tls";
+export { AceBaseIPCLockConfig, AceBaseIPCLock } from "./locks";
+export { AceBaseIPCFederationConfig, AceBaseIPCFederatedPeer } from "./federation";
+export { AceBaseIPCRecorderConfig, AceBaseIPCRecordedFrame } from "./recorder";
+export { replayRecording, readRecording, AceBaseIPCReplayOptions, AceBaseIPCReplayDelivery } from "./replay";
+export { AceBaseIPCLargeMessageStore, AceBaseIPCLargeMessageStoreConfig, AceBaseIPCMemoryMessageStore, AceBaseIPCDiskMessageStore } from "./large-messages";
+export { AceBaseIPCTransport, AceBaseIPCSocket, AceBaseIPCSocketBase, AceBaseIPCSocketBehavior, AceBaseIPCHttpRequest, AceBaseIPCHttpResponse, AceBaseIPCHttpHandler, AceBaseIPCClientTransport, AceBaseIPCClientSocket, AceBaseIPCClientResponse } from "./transport";
+export { AceBaseIPCMemoryTransport } from "./memory";
+export { serveMessagePort, AceBaseIPCMessagePortClientTransport } from "./message-port";
+export { AceBaseIPCCapability, PROTOCOL_VERSION, MIN_PROTOCOL_VERSION } from "./protocol";
+export { BinaryFrameType, BinaryFrameHeader, createBinaryFrame, readBinaryHeader } from "./binary";
+export { AceBaseIPCLogger, AceBaseIPCConsoleLogger, AceBaseIPCConsoleLoggerOptions, LogLevel, LogContext } from "./logger";
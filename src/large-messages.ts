@@ -0,0 +1,336 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { AceBaseIPCConsoleLogger, AceBaseIPCLogger } from './logger';
+
+export interface AceBaseIPCLargeMessageStoreConfig {
+    /** Where to store large messages: in memory, or in a temporary directory on disk. Default is `'memory'` */
+    type?: 'memory' | 'disk'
+    /** Directory to use for the `'disk'` store. Default is `[os.tmpdir()]/acebase-ipc-[pid]`, which is removed when the server stops */
+    path?: string
+    /** Maximum total amount of bytes of all stored messages. Uploads exceeding this limit are refused. Default is 100MB */
+    maxBytes?: number
+    /** Time in ms a message is kept for its recipients to download. Default is 60000 (60s) */
+    ttl?: number
+}
+
+export interface LargeMessageWriter {
+    /**
+     * Writes a chunk of the message
+     * @returns `false` if the store is full or the message expired, the writer must be aborted
+     */
+    write(chunk: Buffer): boolean
+    /** Whether the storage buffers too much written data, writing should be paused until `drained` resolves */
+    readonly needsDrain: boolean
+    /** Resolves once the storage has flushed its buffered data */
+    drained(): Promise<void>
+    /** Finishes writing, resolves once all data has been stored */
+    end(): Promise<void>
+    /** Aborts writing, removes all stored data */
+    abort(): void
+}
+
+interface StorageWriter {
+    write(chunk: Buffer): void
+    /** Whether written data is buffered in memory until storage catches up */
+    needsDrain(): boolean
+    drained(): Promise<void>
+    end(): Promise<void>
+    abort(): void
+}
+
+interface LargeMessage {
+    size: number
+    /** ids of clients that are allowed to download the message, `null` while the message is being written */
+    recipients: string[] | null
+    /** number of active downloads */
+    reading: number
+    /** resolves once all data has been written to storage */
+    written: Promise<void>
+    timeout: NodeJS.Timeout
+}
+
+/**
+ * Stores messages that are too large to be sent over websocket connections, until all recipients have downloaded them
+ */
+export abstract class AceBaseIPCLargeMessageStore {
+
+    private messages: { [id: string]: LargeMessage } = {};
+    private bytes = 0;
+    protected maxBytes: number;
+    protected ttl: number;
+
+    constructor(config: AceBaseIPCLargeMessageStoreConfig, protected logger: AceBaseIPCLogger = new AceBaseIPCConsoleLogger()) {
+        this.maxBytes = typeof config.maxBytes === 'number' ? config.maxBytes : 100 * 1024 * 1024;
+        this.ttl = typeof config.ttl === 'number' ? config.ttl : 60e3;
+    }
+
+    /** Number of stored messages */
+    get count() { return Object.keys(this.messages).length; }
+
+    /** Total amount of bytes of stored messages */
+    get size() { return this.bytes; }
+
+    /**
+     * Creates a writer to stream a new message into the store.
+     * Once written, it must be made available to its recipients with `publish`
+     */
+    createWriter(id: string): LargeMessageWriter {
+        let written: () => void = () => {};
+        const message: LargeMessage = { size: 0, recipients: null, reading: 0, timeout: this.expire(id), written: new Promise(resolve => written = resolve) };
+        this.messages[id] = message;
+        const writer = this.createStorageWriter(id);
+        let aborted = false;
+        return {
+            write: (chunk: Buffer) => {
+                // The message expires if it takes longer than the ttl to write
+                if (aborted || this.messages[id] !== message) { return false; }
+                if (this.bytes + chunk.length > this.maxBytes) { return false; }
+                message.size += chunk.length;
+                this.bytes += chunk.length;
+                writer.write(chunk);
+                return true;
+            },
+            get needsDrain() { return writer.needsDrain(); },
+            drained: () => writer.drained(),
+            end: async () => {
+                await writer.end();
+                written();
+            },
+            abort: () => {
+                aborted = true;
+                writer.abort();
+                written();
+                this.delete(id);
+            }
+        };
+    }
+
+    /**
+     * Stores a complete message and makes it available to its recipients
+     * @returns `false` if the store is full
+     */
+    add(id: string, data: string, recipients: string[]) {
+        const writer = this.createWriter(id);
+        if (!writer.write(Buffer.from(data))) {
+            writer.abort();
+            return false;
+        }
+        writer.end().catch(err => this.logger.error(`Error storing large message ${id}`, { error: err }));
+        this.publish(id, recipients);
+        return true;
+    }
+
+    /**
+     * Makes a written message available for download by its recipients. Each recipient can download it once
+     */
+    publish(id: string, recipients: string[]) {
+        const message = this.messages[id];
+        if (!message) { return; }
+        message.recipients = recipients.slice();
+        clearTimeout(message.timeout);
+        message.timeout = this.expire(id);
+        this.release(id);
+    }
+
+    /**
+     * Checks if a message is available for download by a recipient
+     */
+    has(id: string, recipient: string) {
+        const message = this.messages[id];
+        return !!message && message.recipients !== null && message.recipients.includes(recipient);
+    }
+
+    /**
+     * Gets the size of a stored message
+     */
+    getSize(id: string) {
+        return this.messages[id]?.size ?? 0;
+    }
+
+    /**
+     * Creates a stream to download a message. The recipient won't be able to download it again,
+     * the message is removed once all recipients have downloaded it
+     * @returns `null` if the message does not exist, or the recipient is not allowed to (or already did) download it
+     */
+    async createReadStream(id: string, recipient: string): Promise<Readable | null> {
+        if (!this.has(id, recipient)) { return null; }
+        const message = this.messages[id];
+        const recipients = message.recipients as string[];
+        recipients.splice(recipients.indexOf(recipient), 1);
+        message.reading++;
+        await message.written;
+        if (!this.messages[id]) {
+            // Removed while being written
+            message.reading--;
+            return null;
+        }
+        const stream = this.createStorageReader(id);
+        let done = false;
+        const finish = () => {
+            if (done) { return; }
+            done = true;
+            message.reading--;
+            this.release(id);
+        };
+        stream.once('end', finish);
+        stream.once('close', finish);
+        stream.once('error', finish);
+        return stream;
+    }
+
+    /**
+     * Removes a message from the store
+     */
+    delete(id: string) {
+        const message = this.messages[id];
+        if (!message) { return; }
+        clearTimeout(message.timeout);
+        delete this.messages[id];
+        this.bytes -= message.size;
+        this.removeStorage(id);
+    }
+
+    /**
+     * Removes all messages from the store
+     */
+    clear() {
+        Object.keys(this.messages).forEach(id => this.delete(id));
+    }
+
+    /**
+     * Removes all messages and releases the storage, it is set up again when new messages are stored
+     */
+    close() {
+        this.clear();
+    }
+
+    /** Removes a message if all its recipients have downloaded it */
+    private release(id: string) {
+        const message = this.messages[id];
+        if (message && message.recipients !== null && message.recipients.length === 0 && message.reading === 0) {
+            this.delete(id);
+        }
+    }
+
+    private expire(id: string) {
+        const timeout = setTimeout(() => this.delete(id), this.ttl);
+        timeout.unref();
+        return timeout;
+    }
+
+    protected abstract createStorageWriter(id: string): StorageWriter;
+    protected abstract createStorageReader(id: string): Readable;
+    protected abstract removeStorage(id: string): void;
+}
+
+/**
+ * Keeps large messages in memory
+ */
+export class AceBaseIPCMemoryMessageStore extends AceBaseIPCLargeMessageStore {
+
+    private data: { [id: string]: Buffer[] } = {};
+
+    protected createStorageWriter(id: string): StorageWriter {
+        const chunks: Buffer[] = this.data[id] = [];
+        return {
+            write(chunk: Buffer) { chunks.push(chunk); },
+            needsDrain() { return false; },
+            async drained() { /* Never buffers */ },
+            async end() { /* Nothing to do */ },
+            abort() { /* Data is removed by the store */ }
+        };
+    }
+
+    protected createStorageReader(id: string) {
+        return Readable.from(this.data[id] || []);
+    }
+
+    protected removeStorage(id: string) {
+        delete this.data[id];
+    }
+}
+
+/**
+ * Stores large messages in a temporary directory on disk
+ */
+export class AceBaseIPCDiskMessageStore extends AceBaseIPCLargeMessageStore {
+
+    private dir: string;
+    /** Whether the directory is the default temporary one, which is removed when the store is closed */
+    private temporary: boolean;
+    private closed = false;
+
+    constructor(config: AceBaseIPCLargeMessageStoreConfig, logger?: AceBaseIPCLogger) {
+        super(config, logger);
+        this.temporary = !config.path;
+        this.dir = config.path || path.join(os.tmpdir(), `acebase-ipc-${process.pid}`);
+        fs.mkdirSync(this.dir, { recursive: true });
+    }
+
+    close() {
+        super.close();
+        if (!this.temporary) { return; }
+        this.closed = true;
+        try {
+            fs.rmSync(this.dir, { recursive: true, force: true });
+        }
+        catch (err) {
+            this.logger.error(`Error removing large message directory ${this.dir}`, { error: err });
+        }
+    }
+
+    private getPath(id: string) {
+        return path.join(this.dir, `${id}.msg`);
+    }
+
+    protected createStorageWriter(id: string): StorageWriter {
+        if (this.closed) {
+            fs.mkdirSync(this.dir, { recursive: true });
+            this.closed = false;
+        }
+        const stream = fs.createWriteStream(this.getPath(id));
+        stream.on('error', err => this.logger.error(`Error writing large message ${id} to disk`, { error: err }));
+        let buffering = false;
+        stream.on('drain', () => buffering = false);
+        return {
+            write(chunk: Buffer) { stream.write(chunk) || (buffering = true); },
+            needsDrain() { return buffering; },
+            drained() {
+                return new Promise<void>(resolve => {
+                    if (!buffering || stream.destroyed) { return resolve(); }
+                    const done = () => {
+                        stream.off('drain', done).off('close', done);
+                        resolve();
+                    };
+                    // A stream that is destroyed meanwhile never drains
+                    stream.on('drain', done).on('close', done);
+                });
+            },
+            end() {
+                return new Promise<void>(resolve => stream.end(resolve));
+            },
+            abort() { stream.destroy(); }
+        };
+    }
+
+    protected createStorageReader(id: string) {
+        return fs.createReadStream(this.getPath(id));
+    }
+
+    protected removeStorage(id: string) {
+        fs.unlink(this.getPath(id), err => {
+            err && err.code !== 'ENOENT' && this.logger.error(`Error removing large message ${id} from disk`, { error: err });
+        });
+    }
+}
+
+/**
+ * Creates a large message store for the given settings
+ */
+export function createLargeMessageStore(config: AceBaseIPCLargeMessageStoreConfig = {}, logger?: AceBaseIPCLogger) {
+    return config.type === 'disk'
+        ? new AceBaseIPCDiskMessageStore(config, logger)
+        : new AceBaseIPCMemoryMessageStore(config, logger);
+}
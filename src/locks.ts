@@ -0,0 +1,201 @@
+export interface AceBaseIPCLockConfig {
+    /** Maximum time in ms a lock can be held, it is released and its holder notified with `"lockexpired:[id]"` afterwards. Default is 120000 (2m) */
+    timeout?: number
+    /** Maximum time in ms a lock request waits to be granted, it is refused with `"lockerr:[id];timeout"` afterwards. Default is 120000 (2m) */
+    waitTimeout?: number
+}
+
+/**
+ * Lock held or requested by a client
+ */
+export interface AceBaseIPCLock {
+    /** Lock id assigned by the client, unique per client */
+    id: string
+    clientId: string
+    /** Transaction id, locks of the same transaction don't conflict with each other. Default is the lock id */
+    tid: string
+    path: string
+    /** Whether the lock is exclusive (for writing), or shared with other readers */
+    write: boolean
+    state: 'waiting' | 'held'
+    /** Time the lock was requested */
+    requested: number
+    /** Time the lock was granted */
+    granted?: number
+    /** Time the lock expires when held, or the request times out when waiting */
+    expires: number
+}
+
+export type LockRefusal = 'timeout' | 'deadlock' | 'invalid' | 'duplicate';
+
+/**
+ * Callbacks the lock manager uses to notify clients
+ */
+export interface AceBaseIPCLockHandler {
+    /** Lock was granted */
+    granted(dbname: string, lock: AceBaseIPCLock): void
+    /** Lock request was refused */
+    refused(dbname: string, lock: AceBaseIPCLock, reason: LockRefusal): void
+    /** Held lock was released because it exceeded the lock timeout */
+    expired(dbname: string, lock: AceBaseIPCLock): void
+}
+
+/**
+ * Checks whether 2 paths overlap: they are the same, or one is a descendant of the other.
+ * Array entries (`"list[0]"`) are descendants of the array (`"list"`)
+ */
+export function pathsOverlap(a: string, b: string) {
+    const contains = (parent: string, child: string) => parent === '' || child.startsWith(`${parent}/`) || child.startsWith(`${parent}[`);
+    return a === b || contains(a, b) || contains(b, a);
+}
+
+function conflicts(a: AceBaseIPCLock, b: AceBaseIPCLock) {
+    return (a.write || b.write) && a.clientId + '/' + a.tid !== b.clientId + '/' + b.tid && pathsOverlap(a.path, b.path);
+}
+
+/**
+ * Path-based shared and exclusive locks for the clients of each database, so AceBase processes don't need a master process
+ * to coordinate their transactions. Locks are granted in the order they were requested (FIFO), a request is only granted
+ * if it doesn't conflict with held locks or earlier requests. Requests that would cause a deadlock are refused right away.
+ */
+export class AceBaseIPCLockManager {
+
+    private locks: { [dbname: string]: AceBaseIPCLock[] } = {};
+    private interval?: NodeJS.Timeout;
+    private timeout: number;
+    private waitTimeout: number;
+
+    constructor(config: AceBaseIPCLockConfig, private handler: AceBaseIPCLockHandler) {
+        this.timeout = typeof config.timeout === 'number' ? config.timeout : 120e3;
+        this.waitTimeout = typeof config.waitTimeout === 'number' ? config.waitTimeout : 120e3;
+    }
+
+    start() {
+        this.interval = setInterval(() => this.expire(), 1000);
+        this.interval.unref();
+    }
+
+    stop() {
+        this.interval && clearInterval(this.interval);
+        this.interval = undefined;
+        this.locks = {};
+    }
+
+    /**
+     * Gets all held and requested locks of a database, in the order they were requested
+     */
+    getLocks(dbname: string) {
+        return this.locks[dbname] || [];
+    }
+
+    /**
+     * Requests a lock. The handler is called once it is granted or refused
+     */
+    lock(dbname: string, request: { id: string, clientId: string, tid?: string, path: string, write: boolean }) {
+        const now = Date.now();
+        const lock: AceBaseIPCLock = {
+            id: request.id,
+            clientId: request.clientId,
+            tid: request.tid || request.id,
+            path: request.path.replace(/^\/+|\/+$/g, ''),
+            write: request.write,
+            state: 'waiting',
+            requested: now,
+            expires: now + this.waitTimeout
+        };
+        if ((this.locks[dbname] || []).some(other => other.clientId === lock.clientId && other.id === lock.id)) {
+            return this.handler.refused(dbname, lock, 'duplicate');
+        }
+        const locks = this.locks[dbname] || (this.locks[dbname] = []);
+        locks.push(lock);
+        if (this.isDeadlocked(locks, lock)) {
+            locks.splice(locks.indexOf(lock), 1);
+            return this.handler.refused(dbname, lock, 'deadlock');
+        }
+        this.grant(dbname);
+    }
+
+    /**
+     * Releases a held lock, or cancels a lock request
+     * @returns whether the lock existed
+     */
+    unlock(dbname: string, clientId: string, id: string) {
+        const locks = this.locks[dbname] || [];
+        const index = locks.findIndex(lock => lock.clientId === clientId && lock.id === id);
+        if (index < 0) { return false; }
+        locks.splice(index, 1);
+        this.grant(dbname);
+        return true;
+    }
+
+    /**
+     * Releases all locks and cancels all requests of a client, eg when it disconnected
+     * @param held whether to release its held locks too, or only cancel its waiting requests
+     */
+    release(dbname: string, clientId: string, held = true) {
+        const locks = this.locks[dbname] || [];
+        const remaining = locks.filter(lock => lock.clientId !== clientId || (!held && lock.state === 'held'));
+        if (remaining.length === locks.length) { return; }
+        this.locks[dbname] = remaining;
+        this.grant(dbname);
+    }
+
+    /**
+     * Grants all waiting requests that don't conflict with held locks or earlier requests
+     */
+    private grant(dbname: string) {
+        const locks = this.locks[dbname] || [];
+        const now = Date.now();
+        locks.forEach((lock, i) => {
+            if (lock.state !== 'waiting') { return; }
+            const blocked = locks.some((other, j) => (other.state === 'held' || j < i) && other !== lock && conflicts(lock, other));
+            if (blocked) { return; }
+            lock.state = 'held';
+            lock.granted = now;
+            lock.expires = now + this.timeout;
+            this.handler.granted(dbname, lock);
+        });
+        if (locks.length === 0) { delete this.locks[dbname]; }
+    }
+
+    /**
+     * Checks whether waiting for a lock would cause a deadlock: the transaction requesting it would (indirectly) wait for itself
+     */
+    private isDeadlocked(locks: AceBaseIPCLock[], lock: AceBaseIPCLock) {
+        const owner = (lock: AceBaseIPCLock) => `${lock.clientId}/${lock.tid}`;
+        // Transactions each transaction waits for: holders of conflicting locks, and owners of earlier conflicting requests
+        const waitsFor = (tx: string) => {
+            const result = new Set<string>();
+            locks.forEach((waiting, i) => {
+                if (waiting.state !== 'waiting' || owner(waiting) !== tx) { return; }
+                locks.forEach((other, j) => {
+                    if ((other.state === 'held' || j < i) && other !== waiting && conflicts(waiting, other)) { result.add(owner(other)); }
+                });
+            });
+            return result;
+        };
+        const start = owner(lock), visited = new Set<string>(), stack = [...waitsFor(start)];
+        while (stack.length > 0) {
+            const tx = stack.pop() as string;
+            if (tx === start) { return true; }
+            if (visited.has(tx)) { continue; }
+            visited.add(tx);
+            stack.push(...waitsFor(tx));
+        }
+        return false;
+    }
+
+    /**
+     * Releases expired locks and refuses requests that waited too long
+     */
+    private expire() {
+        const now = Date.now();
+        Object.keys(this.locks).forEach(dbname => {
+            const expired = this.locks[dbname].filter(lock => lock.expires <= now);
+            if (expired.length === 0) { return; }
+            this.locks[dbname] = this.locks[dbname].filter(lock => lock.expires > now);
+            expired.forEach(lock => lock.state === 'held' ? this.handler.expired(dbname, lock) : this.handler.refused(dbname, lock, 'timeout'));
+            this.grant(dbname);
+        });
+    }
+}
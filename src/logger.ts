@@ -0,0 +1,102 @@
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug' | 'trace';
+
+/**
+ * Context fields added to a log line. The `payload` field is treated as message content, the default logger
+ * redacts or truncates it. The `error` field is logged with its message (and stack at level debug and trace)
+ */
+export interface LogContext {
+    dbname?: string
+    clientId?: string
+    /** Kind of message being handled, eg `"broadcast"`, `"directed"` or `"request"` */
+    kind?: string
+    payload?: string
+    error?: any
+    [key: string]: any
+}
+
+export interface AceBaseIPCLogger {
+    error(message: string, context?: LogContext): void
+    warn(message: string, context?: LogContext): void
+    info(message: string, context?: LogContext): void
+    debug(message: string, context?: LogContext): void
+    trace(message: string, context?: LogContext): void
+}
+
+export interface AceBaseIPCConsoleLoggerOptions {
+    /** Minimum level to log. Default is `'info'` */
+    level?: LogLevel
+    /** Whether to log each line as a JSON object. Default is `false` */
+    json?: boolean
+    /**
+     * What to do with message payloads: `'redact'` replaces them with their size, `'truncate'` logs the first
+     * `maxPayloadLength` characters, `'full'` logs them entirely. Default is `'redact'`
+     */
+    payloads?: 'redact' | 'truncate' | 'full'
+    /** Maximum number of payload characters to log when `payloads` is `'truncate'`. Default is 100 */
+    maxPayloadLength?: number
+}
+
+const levels: LogLevel[] = ['error', 'warn', 'info', 'debug', 'trace'];
+
+export function isLogLevel(level: string): level is LogLevel {
+    return levels.includes(level as LogLevel);
+}
+
+/**
+ * Default logger, writes to the console
+ */
+export class AceBaseIPCConsoleLogger implements AceBaseIPCLogger {
+
+    private level: number;
+    private json: boolean;
+    private payloads: 'redact' | 'truncate' | 'full';
+    private maxPayloadLength: number;
+
+    constructor(options: AceBaseIPCConsoleLoggerOptions = {}) {
+        this.level = levels.indexOf(options.level || 'info');
+        this.json = options.json === true;
+        this.payloads = options.payloads || 'redact';
+        this.maxPayloadLength = typeof options.maxPayloadLength === 'number' ? options.maxPayloadLength : 100;
+    }
+
+    error(message: string, context?: LogContext) { this.log('error', message, context); }
+    warn(message: string, context?: LogContext) { this.log('warn', message, context); }
+    info(message: string, context?: LogContext) { this.log('info', message, context); }
+    debug(message: string, context?: LogContext) { this.log('debug', message, context); }
+    trace(message: string, context?: LogContext) { this.log('trace', message, context); }
+
+    private log(level: LogLevel, message: string, context: LogContext = {}) {
+        const index = levels.indexOf(level);
+        if (index > this.level) { return; }
+        const fields: { [key: string]: any } = {};
+        Object.keys(context).forEach(key => {
+            const value = context[key];
+            if (typeof value === 'undefined') { return; }
+            if (key === 'payload') { fields.payload = this.formatPayload(value); }
+            else if (key === 'error') { fields.error = formatError(value, this.level >= levels.indexOf('debug')); }
+            else { fields[key] = value; }
+        });
+        const write = index === 0 ? console.error : index === 1 ? console.warn : console.log;
+        if (this.json) {
+            write(JSON.stringify({ time: new Date().toISOString(), level, msg: message, ...fields }));
+        }
+        else {
+            const str = Object.keys(fields).map(key => `${key}=${typeof fields[key] === 'string' && !/\s|"/.test(fields[key]) ? fields[key] : JSON.stringify(fields[key])}`).join(' ');
+            write(`${new Date().toISOString()} [${level}] ${message}${str ? ' ' + str : ''}`);
+        }
+    }
+
+    private formatPayload(payload: string) {
+        if (this.payloads === 'full') { return payload; }
+        if (this.payloads === 'truncate' && payload.length > this.maxPayloadLength) {
+            return `${payload.slice(0, this.maxPayloadLength)}... (${payload.length} chars)`;
+        }
+        if (this.payloads === 'truncate') { return payload; }
+        return `[${payload.length} chars]`;
+    }
+}
+
+function formatError(error: any, stack: boolean) {
+    if (!(error instanceof Error)) { return String(error); }
+    return stack && error.stack ? error.stack : error.message;
+}
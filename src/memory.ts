@@ -0,0 +1,436 @@
+import { EventEmitter } from 'events';
+import {
+    AceBaseIPCClientResponse, AceBaseIPCClientSocket, AceBaseIPCClientTransport, AceBaseIPCHttpHandler, AceBaseIPCHttpRequest,
+    AceBaseIPCHttpResponse, AceBaseIPCSocket, AceBaseIPCSocketBase, AceBaseIPCSocketBehavior, AceBaseIPCTransport, RecognizedString
+} from './transport';
+
+/** readyState values, same as WebSocket */
+const CONNECTING = 0, OPEN = 1, CLOSING = 2, CLOSED = 3;
+
+/** Size of the chunks posted data is passed to the server in */
+const CHUNK_SIZE = 64 * 1024;
+
+/** Remote address reported for in-process clients */
+const ADDRESS = 'memory';
+
+function toBuffer(data: RecognizedString) {
+    return typeof data === 'string' ? Buffer.from(data, 'utf8') : data instanceof ArrayBuffer ? Buffer.from(data.slice(0)) : Buffer.from(data);
+}
+
+function toArrayBuffer(data: Buffer) {
+    return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength);
+}
+
+/**
+ * Matches a url path against a route pattern
+ * @returns the route parameters, or `null` if the path does not match
+ */
+function matchRoute(pattern: string, path: string) {
+    const patternSegments = pattern.split('/'), pathSegments = path.split('/');
+    if (patternSegments.length !== pathSegments.length) { return null; }
+    const parameters: string[] = [];
+    for (let i = 0; i < patternSegments.length; i++) {
+        if (patternSegments[i].startsWith(':')) {
+            if (pathSegments[i].length === 0) { return null; }
+            parameters.push(pathSegments[i]);
+        }
+        else if (patternSegments[i] !== pathSegments[i]) {
+            return null;
+        }
+    }
+    return parameters;
+}
+
+function createRequest(method: string, path: string, headers: { [name: string]: string }, parameters: string[]): AceBaseIPCHttpRequest {
+    const [url, query = ''] = path.split('?');
+    const lowerCaseHeaders: { [name: string]: string } = {};
+    Object.keys(headers).forEach(name => lowerCaseHeaders[name.toLowerCase()] = headers[name]);
+    return {
+        getHeader: name => lowerCaseHeaders[name] || '',
+        getParameter: index => parameters[index] || '',
+        getUrl: () => url,
+        getMethod: () => method.toLowerCase(),
+        getQuery: () => query,
+    };
+}
+
+interface Route {
+    method: 'GET' | 'POST'
+    pattern: string
+    handler: AceBaseIPCHttpHandler
+}
+
+/**
+ * Client side of an in-process websocket connection
+ */
+class MemoryClientSocket extends EventEmitter implements AceBaseIPCClientSocket {
+    readyState = CONNECTING;
+    /** Server side of the connection, once it has been upgraded */
+    connection?: MemoryConnection;
+    /** Messages received while paused */
+    private pending: Array<{ data: Buffer, isBinary: boolean }> = [];
+    private paused = false;
+
+    get isPaused() { return this.paused; }
+
+    /**
+     * Stops emitting received messages, like a client that can't keep up. They count towards the buffered amount of the
+     * server side of the connection until `resume()` is called
+     */
+    pause() {
+        this.paused = true;
+    }
+
+    /**
+     * Emits the messages received while paused and continues emitting new ones
+     */
+    resume() {
+        this.paused = false;
+        while (!this.paused && this.pending.length > 0 && this.readyState !== CLOSED) {
+            const { data, isBinary } = this.pending.shift() as { data: Buffer, isBinary: boolean };
+            this.deliver(data, isBinary);
+        }
+    }
+
+    /**
+     * Receives a message from the server side of the connection
+     */
+    receive(data: Buffer, isBinary: boolean) {
+        if (this.readyState === CLOSED) { return; }
+        if (this.paused || this.pending.length > 0) {
+            return this.pending.push({ data, isBinary });
+        }
+        this.deliver(data, isBinary);
+    }
+
+    private deliver(data: Buffer, isBinary: boolean) {
+        this.connection?.delivered(data.length);
+        this.emit('message', data, isBinary);
+    }
+
+    send(data: string | Buffer) {
+        if (this.readyState !== OPEN) {
+            if (this.readyState === CONNECTING) { throw new Error('WebSocket is not open'); }
+            return;
+        }
+        (this.connection as MemoryConnection).receive(typeof data === 'string' ? Buffer.from(data, 'utf8') : data, typeof data !== 'string');
+    }
+
+    close() {
+        if (this.readyState === CONNECTING) {
+            // Upgrade is in progress, it is aborted once it completes
+            this.readyState = CLOSED;
+            setImmediate(() => this.emit('close', 1006, ''));
+            return;
+        }
+        if (this.readyState !== OPEN) { return; }
+        this.readyState = CLOSING;
+        // Messages sent before are delivered first
+        setImmediate(() => this.connection?.close(1000));
+    }
+
+    /**
+     * Refuses the connection, like a server responding with an error status instead of upgrading
+     */
+    refuse(status: string, body: string) {
+        if (this.readyState === CLOSED) { return; }
+        this.readyState = CLOSED;
+        const statusCode = parseInt(status), statusMessage = status.slice(statusCode.toString().length).trim() || body;
+        this.emit('unexpected-response', { destroy() { /* Nothing to clean up */ } }, { statusCode, statusMessage });
+        this.emit('close', 1006, '');
+    }
+}
+
+/**
+ * Topic subscriptions of the connections of a transport
+ */
+class MemoryTopics {
+    private subscribers = new Map<string, Set<MemoryConnection>>();
+
+    subscribe(connection: MemoryConnection, topic: string) {
+        if (connection.closed) { return false; }
+        const subscribers = this.subscribers.get(topic) || new Set<MemoryConnection>();
+        this.subscribers.set(topic, subscribers.add(connection));
+        connection.topics.add(topic);
+        return true;
+    }
+
+    unsubscribe(connection: MemoryConnection, topic: string) {
+        const subscribers = this.subscribers.get(topic);
+        connection.topics.delete(topic);
+        if (!subscribers?.delete(connection)) { return false; }
+        subscribers.size === 0 && this.subscribers.delete(topic);
+        return true;
+    }
+
+    /**
+     * Sends a message to all subscribers of a topic
+     * @param except connection that publishes the message, it does not receive it
+     */
+    publish(topic: string, message: RecognizedString, isBinary: boolean, except?: MemoryConnection) {
+        const subscribers = this.subscribers.get(topic);
+        if (!subscribers) { return false; }
+        const data = toBuffer(message);
+        subscribers.forEach(connection => connection !== except && connection.send(data, isBinary));
+        return true;
+    }
+
+    /**
+     * Removes all subscriptions of a connection
+     */
+    remove(connection: MemoryConnection) {
+        connection.topics.forEach(topic => this.unsubscribe(connection, topic));
+    }
+}
+
+/**
+ * Server side of an in-process websocket connection
+ */
+class MemoryConnection {
+    /** Socket passed to the server's handlers */
+    readonly socket: AceBaseIPCSocket;
+    readonly topics = new Set<string>();
+    closed = false;
+    /** Number of bytes sent that the client did not receive yet */
+    private buffered = 0;
+
+    constructor(private behavior: AceBaseIPCSocketBehavior, private client: MemoryClientSocket, topics: MemoryTopics, userData: unknown, private onClose: () => void) {
+        const socket: AceBaseIPCSocketBase = {
+            send: (message, isBinary = false) => this.send(toBuffer(message), isBinary),
+            ping: () => {
+                // Clients respond to pings right away
+                !this.closed && setImmediate(() => !this.closed && this.behavior.pong?.(socket));
+                return true;
+            },
+            subscribe: topic => topics.subscribe(this, topic),
+            unsubscribe: topic => topics.unsubscribe(this, topic),
+            publish: (topic, message, isBinary = false) => topics.publish(topic, message, isBinary, this),
+            getBufferedAmount: () => this.buffered,
+            close: () => this.close(1006),
+        };
+        this.socket = Object.assign(socket, userData);
+    }
+
+    /**
+     * Sends a message to the client. Messages are delivered asynchronously, in order
+     */
+    send(data: Buffer, isBinary: boolean) {
+        if (this.closed) { return false; }
+        this.buffered += data.length;
+        setImmediate(() => this.client.receive(data, isBinary));
+        return true;
+    }
+
+    /**
+     * Called by the client once it received a message, the server is notified the connection drained like uWS does
+     */
+    delivered(size: number) {
+        this.buffered -= size;
+        !this.closed && this.behavior.drain?.(this.socket);
+    }
+
+    /**
+     * Receives a message from the client. Messages exceeding the maximum payload close the connection, like uWS does
+     */
+    receive(data: Buffer, isBinary: boolean) {
+        setImmediate(() => {
+            if (this.closed) { return; }
+            if (data.length > (this.behavior.maxPayloadLength || 16 * 1024)) {
+                return this.close(1009);
+            }
+            this.behavior.message?.(this.socket, toArrayBuffer(data), isBinary);
+        });
+    }
+
+    /**
+     * Closes the connection. The server is notified right away, the client once all messages sent to it have been delivered
+     */
+    close(code: number) {
+        if (this.closed) { return; }
+        this.closed = true;
+        this.onClose();
+        this.behavior.close?.(this.socket, code, new ArrayBuffer(0));
+        setImmediate(() => {
+            this.client.readyState = CLOSED;
+            this.client.emit('close', code, '');
+        });
+    }
+}
+
+/**
+ * Transport for clients in the same process, without network connections. It implements the same protocol as network
+ * connections: the server registers its routes with it, and `AceBaseIPCClient`s connect with it using their `transport`
+ * option. Useful for tests and single process setups, and as base for other transports (see `serveMessagePort`)
+ * @example
+ * const transport = new AceBaseIPCMemoryTransport();
+ * const server = new AceBaseIPCServer({ listen: false, transports: [transport] });
+ * await server.start();
+ * const client = new AceBaseIPCClient({ dbname: 'mydb', transport });
+ * await client.connect();
+ */
+export class AceBaseIPCMemoryTransport implements AceBaseIPCTransport, AceBaseIPCClientTransport {
+
+    private routes: Route[] = [];
+    private behaviors: Array<{ pattern: string, behavior: AceBaseIPCSocketBehavior }> = [];
+    private connections = new Set<MemoryConnection>();
+    private topics = new MemoryTopics();
+
+    get(pattern: string, handler: AceBaseIPCHttpHandler) {
+        this.routes.push({ method: 'GET', pattern, handler });
+        return this;
+    }
+
+    post(pattern: string, handler: AceBaseIPCHttpHandler) {
+        this.routes.push({ method: 'POST', pattern, handler });
+        return this;
+    }
+
+    ws<UserData>(pattern: string, behavior: AceBaseIPCSocketBehavior<UserData>) {
+        this.behaviors.push({ pattern, behavior });
+        return this;
+    }
+
+    publish(topic: string, message: RecognizedString, isBinary = false) {
+        return this.topics.publish(topic, message, isBinary);
+    }
+
+    /**
+     * Closes all connections and removes all routes
+     */
+    close() {
+        this.connections.forEach(connection => connection.close(1001));
+        this.routes = [];
+        this.behaviors = [];
+    }
+
+    connect(path: string, headers: { [name: string]: string }) {
+        const client = new MemoryClientSocket();
+        setImmediate(() => this.upgrade(client, path, headers));
+        return client;
+    }
+
+    private upgrade(client: MemoryClientSocket, path: string, headers: { [name: string]: string }) {
+        if (client.readyState === CLOSED) { return; }
+        const url = path.split('?')[0];
+        let parameters: string[] | null = null;
+        const match = this.behaviors.find(({ pattern }) => (parameters = matchRoute(pattern, url)) !== null);
+        if (!match) {
+            return client.refuse('404 Not Found', 'Not Found');
+        }
+        const { behavior } = match;
+        const req = createRequest('GET', path, headers, parameters || []);
+        let status = '200 OK', aborted: (() => void) | undefined;
+        const chunks: Buffer[] = [];
+        const res: AceBaseIPCHttpResponse = {
+            writeStatus: value => { status = toBuffer(value).toString('utf8'); return res; },
+            writeHeader: () => res,
+            write: chunk => { chunks.push(toBuffer(chunk)); return true; },
+            end: body => {
+                typeof body !== 'undefined' && chunks.push(toBuffer(body));
+                client.refuse(status, Buffer.concat(chunks).toString('utf8'));
+                return res;
+            },
+            tryEnd: chunk => { res.end(chunk); return [true, true]; },
+            close: () => { client.refuse('500 Internal Server Error', ''); return res; },
+            getWriteOffset: () => chunks.reduce((offset, chunk) => offset + chunk.length, 0),
+            onWritable: () => res,
+            onAborted: handler => { aborted = handler; return res; },
+            onData: () => res,      // Upgrade requests have no body
+            pause: () => { /* No body */ },
+            resume: () => { /* No body */ },
+            getRemoteAddressAsText: () => toArrayBuffer(Buffer.from(ADDRESS)),
+            upgrade: userData => {
+                if (client.readyState === CLOSED) {
+                    // Client closed the connection during the upgrade
+                    return aborted?.();
+                }
+                const connection: MemoryConnection = new MemoryConnection(behavior, client, this.topics, userData, () => {
+                    this.topics.remove(connection);
+                    this.connections.delete(connection);
+                });
+                this.connections.add(connection);
+                client.connection = connection;
+                client.readyState = OPEN;
+                client.emit('open');
+                behavior.open?.(connection.socket);
+            },
+        };
+        if (!behavior.upgrade) {
+            return res.upgrade({}, '', '', '', null);
+        }
+        behavior.upgrade(res, req, null);
+    }
+
+    request(method: 'GET' | 'POST', path: string, headers: { [name: string]: string }, body?: Buffer) {
+        return new Promise<AceBaseIPCClientResponse>((resolve, reject) => {
+            const url = path.split('?')[0];
+            let parameters: string[] | null = null;
+            const route = this.routes.find(route => route.method === method && (parameters = matchRoute(route.pattern, url)) !== null);
+            if (!route) {
+                return resolve({ status: 404, headers: {}, body: Buffer.from('Not Found') });
+            }
+            const req = createRequest(method, path, headers, parameters || []);
+            const responseHeaders: { [name: string]: string } = {}, chunks: Buffer[] = [];
+            let status = 200, offset = 0, ended = false, paused = false;
+            let resumed: (() => void) | undefined;
+            const write = (chunk: RecognizedString) => {
+                const buffer = toBuffer(chunk);
+                chunks.push(buffer);
+                offset += buffer.length;
+            };
+            const res: AceBaseIPCHttpResponse = {
+                writeStatus: value => { status = parseInt(toBuffer(value).toString('utf8')); return res; },
+                writeHeader: (key, value) => { responseHeaders[toBuffer(key).toString('utf8').toLowerCase()] = toBuffer(value).toString('utf8'); return res; },
+                write: chunk => { write(chunk); return true; },
+                end: body => {
+                    if (ended) { return res; }
+                    ended = true;
+                    typeof body !== 'undefined' && write(body);
+                    resolve({ status, headers: responseHeaders, body: Buffer.concat(chunks) });
+                    return res;
+                },
+                tryEnd: (chunk, totalSize) => {
+                    write(chunk);
+                    const done = offset >= totalSize;
+                    done && res.end();
+                    return [true, done];
+                },
+                close: () => {
+                    ended || reject(new Error(`${method} ${url} was aborted`));
+                    ended = true;
+                    return res;
+                },
+                getWriteOffset: () => offset,
+                onWritable: () => res,      // Never under back pressure
+                onAborted: () => res,
+                onData: handler => {
+                    // Pass the body in chunks, like network requests
+                    const data = body || Buffer.alloc(0);
+                    let position = 0;
+                    const next = () => {
+                        if (ended) { return; }
+                        if (paused) {
+                            resumed = next;
+                            return;
+                        }
+                        const chunk = data.slice(position, position + CHUNK_SIZE);
+                        position += chunk.length;
+                        handler(toArrayBuffer(chunk), position >= data.length);
+                        position < data.length && setImmediate(next);
+                    };
+                    setImmediate(next);
+                    return res;
+                },
+                pause: () => { paused = true; },
+                resume: () => {
+                    paused = false;
+                    resumed && setImmediate(resumed);
+                    resumed = undefined;
+                },
+                getRemoteAddressAsText: () => toArrayBuffer(Buffer.from(ADDRESS)),
+                upgrade: () => { throw new Error('Not a websocket route'); },
+            };
+            route.handler(res, req);
+        });
+    }
+}
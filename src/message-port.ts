@@ -0,0 +1,179 @@
+import { EventEmitter } from 'events';
+import { MessagePort } from 'worker_threads';
+import { AceBaseIPCClientResponse, AceBaseIPCClientSocket, AceBaseIPCClientTransport } from './transport';
+import { AceBaseIPCMemoryTransport } from './memory';
+
+/**
+ * Messages exchanged over a MessagePort. Connections and requests are identified by an id assigned by the client side
+ */
+type PortMessage =
+    | { type: 'connect', id: number, path: string, headers: { [name: string]: string } }
+    | { type: 'open', id: number }
+    | { type: 'refused', id: number, statusCode: number, statusMessage: string }
+    | { type: 'message', id: number, data: string | Uint8Array, isBinary: boolean }
+    | { type: 'close', id: number }
+    | { type: 'request', id: number, method: 'GET' | 'POST', path: string, headers: { [name: string]: string }, body?: Uint8Array }
+    | { type: 'response', id: number, response?: AceBaseIPCClientResponse, error?: string };
+
+/** readyState values, same as WebSocket */
+const CONNECTING = 0, OPEN = 1, CLOSING = 2, CLOSED = 3;
+
+/**
+ * Serves clients on the other side of a MessagePort, eg in a worker thread, through an in-process transport of the server.
+ * Clients connect using an `AceBaseIPCMessagePortClientTransport` for the other side of the port
+ * @example
+ * // Main thread
+ * const transport = new AceBaseIPCMemoryTransport();
+ * const server = new AceBaseIPCServer({ listen: false, transports: [transport] });
+ * await server.start();
+ * const worker = new Worker('./worker.js');
+ * const { port1, port2 } = new MessageChannel();
+ * serveMessagePort(transport, port1);
+ * worker.postMessage({ port: port2 }, [port2]);
+ *
+ * // Worker thread
+ * parentPort.once('message', ({ port }) => {
+ *     const client = new AceBaseIPCClient({ dbname: 'mydb', transport: new AceBaseIPCMessagePortClientTransport(port) });
+ * });
+ * @returns function that stops serving the port, and closes its connections
+ */
+export function serveMessagePort(transport: AceBaseIPCMemoryTransport, port: MessagePort) {
+    const sockets = new Map<number, AceBaseIPCClientSocket>();
+    const post = (msg: PortMessage) => port.postMessage(msg);
+    const handle = (msg: PortMessage) => {
+        switch (msg.type) {
+            case 'connect': {
+                const { id } = msg;
+                const socket = transport.connect(msg.path, msg.headers);
+                sockets.set(id, socket);
+                socket.on('open', () => post({ type: 'open', id }));
+                socket.on('unexpected-response', (req, res) => post({ type: 'refused', id, statusCode: res.statusCode, statusMessage: res.statusMessage }));
+                socket.on('message', (data: Buffer, isBinary: boolean) => post({ type: 'message', id, data: isBinary ? data : data.toString('utf8'), isBinary }));
+                socket.on('close', () => {
+                    sockets.delete(id);
+                    post({ type: 'close', id });
+                });
+                return;
+            }
+            case 'message': {
+                return sockets.get(msg.id)?.send(typeof msg.data === 'string' ? msg.data : Buffer.from(msg.data));
+            }
+            case 'close': {
+                return sockets.get(msg.id)?.close();
+            }
+            case 'request': {
+                const { id } = msg;
+                return transport.request(msg.method, msg.path, msg.headers, msg.body && Buffer.from(msg.body))
+                    .then(response => post({ type: 'response', id, response }))
+                    .catch(err => post({ type: 'response', id, error: err.message }));
+            }
+        }
+    };
+    const stop = () => {
+        port.off('message', handle);
+        sockets.forEach(socket => socket.close());
+        sockets.clear();
+    };
+    port.on('message', handle);
+    port.once('close', stop);
+    return stop;
+}
+
+/**
+ * Client side of a connection over a MessagePort
+ */
+class MessagePortClientSocket extends EventEmitter implements AceBaseIPCClientSocket {
+    readyState = CONNECTING;
+
+    constructor(private id: number, private port: MessagePort) {
+        super();
+    }
+
+    send(data: string | Buffer) {
+        if (this.readyState === CONNECTING) { throw new Error('WebSocket is not open'); }
+        if (this.readyState !== OPEN) { return; }
+        this.port.postMessage({ type: 'message', id: this.id, data, isBinary: typeof data !== 'string' } as PortMessage);
+    }
+
+    close() {
+        if (this.readyState === CLOSING || this.readyState === CLOSED) { return; }
+        this.readyState = CLOSING;
+        this.port.postMessage({ type: 'close', id: this.id } as PortMessage);
+    }
+}
+
+/**
+ * Transport for clients connecting to a server on the other side of a MessagePort, see `serveMessagePort`
+ */
+export class AceBaseIPCMessagePortClientTransport implements AceBaseIPCClientTransport {
+
+    private counter = 0;
+    private sockets = new Map<number, MessagePortClientSocket>();
+    private requests = new Map<number, { resolve: (response: AceBaseIPCClientResponse) => void, reject: (err: Error) => void }>();
+
+    constructor(private port: MessagePort) {
+        port.on('message', (msg: PortMessage) => this.handle(msg));
+        port.once('close', () => {
+            this.sockets.forEach(socket => this.closed(socket));
+            this.requests.forEach(request => request.reject(new Error('MessagePort closed')));
+            this.requests.clear();
+        });
+    }
+
+    connect(path: string, headers: { [name: string]: string }) {
+        const id = ++this.counter;
+        const socket = new MessagePortClientSocket(id, this.port);
+        this.sockets.set(id, socket);
+        this.port.postMessage({ type: 'connect', id, path, headers } as PortMessage);
+        return socket;
+    }
+
+    request(method: 'GET' | 'POST', path: string, headers: { [name: string]: string }, body?: Buffer) {
+        const id = ++this.counter;
+        return new Promise<AceBaseIPCClientResponse>((resolve, reject) => {
+            this.requests.set(id, { resolve, reject });
+            this.port.postMessage({ type: 'request', id, method, path, headers, body } as PortMessage);
+        });
+    }
+
+    private closed(socket: MessagePortClientSocket) {
+        this.sockets.forEach((other, id) => other === socket && this.sockets.delete(id));
+        socket.readyState = CLOSED;
+        socket.emit('close', 1006, '');
+    }
+
+    private handle(msg: PortMessage) {
+        switch (msg.type) {
+            case 'open': {
+                const socket = this.sockets.get(msg.id);
+                if (!socket) { return; }
+                socket.readyState = OPEN;
+                return socket.emit('open');
+            }
+            case 'refused': {
+                const socket = this.sockets.get(msg.id);
+                if (!socket) { return; }
+                socket.readyState = CLOSED; // Followed by a close message
+                return socket.emit('unexpected-response', { destroy() { /* Nothing to clean up */ } }, { statusCode: msg.statusCode, statusMessage: msg.statusMessage });
+            }
+            case 'message': {
+                const data = typeof msg.data === 'string' ? Buffer.from(msg.data, 'utf8') : Buffer.from(msg.data);
+                return this.sockets.get(msg.id)?.emit('message', data, msg.isBinary);
+            }
+            case 'close': {
+                const socket = this.sockets.get(msg.id);
+                return socket && this.closed(socket);
+            }
+            case 'response': {
+                const request = this.requests.get(msg.id);
+                if (!request) { return; }
+                this.requests.delete(msg.id);
+                if (msg.error || !msg.response) {
+                    return request.reject(new Error(msg.error));
+                }
+                const { status, headers, body } = msg.response;
+                return request.resolve({ status, headers, body: Buffer.from(body) });
+            }
+        }
+    }
+}
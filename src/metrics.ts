@@ -0,0 +1,102 @@
+export type MessageType = 'broadcast' | 'directed' | 'ping' | 'request' | 'response' | 'publish';
+
+interface Labels { [name: string]: string | number }
+
+/**
+ * Counter (or gauge) with labels
+ */
+class Metric {
+    private values: { [key: string]: { labels: Labels, value: number } } = {};
+
+    constructor(public name: string, public type: 'counter' | 'gauge', public help: string) {}
+
+    add(labels: Labels, value = 1) {
+        const key = JSON.stringify(labels);
+        const entry = this.values[key] || (this.values[key] = { labels, value: 0 });
+        entry.value += value;
+    }
+
+    set(labels: Labels, value: number) {
+        this.values[JSON.stringify(labels)] = { labels, value };
+    }
+
+    render() {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+        Object.keys(this.values).forEach(key => {
+            const { labels, value } = this.values[key];
+            const names = Object.keys(labels);
+            const labelStr = names.length === 0 ? '' : `{${names.map(name => `${name}="${escapeLabel(labels[name])}"`).join(',')}}`;
+            lines.push(`${this.name}${labelStr} ${value}`);
+        });
+        return lines.join('\n');
+    }
+}
+
+function escapeLabel(value: string | number) {
+    return value.toString().replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Collects server metrics, rendered in Prometheus text format by GET `/metrics`
+ */
+export class AceBaseIPCMetrics {
+
+    private messagesIn = new Metric('acebase_ipc_messages_received_total', 'counter', 'Messages received from clients');
+    private messagesOut = new Metric('acebase_ipc_messages_sent_total', 'counter', 'Messages sent to clients');
+    private bytesIn = new Metric('acebase_ipc_bytes_received_total', 'counter', 'Bytes received from clients');
+    private bytesOut = new Metric('acebase_ipc_bytes_sent_total', 'counter', 'Bytes sent to clients');
+    private backpressure = new Metric('acebase_ipc_backpressure_warnings_total', 'counter', 'Messages that could not be sent to a client immediately because of back pressure');
+    private rejected = new Metric('acebase_ipc_rejected_upgrades_total', 'counter', 'Refused websocket connection attempts');
+    private throttledMessages = new Metric('acebase_ipc_throttled_messages_total', 'counter', 'Messages dropped because a rate limit was exceeded');
+
+    received(dbname: string, type: MessageType, bytes: number) {
+        this.messagesIn.add({ dbname, type });
+        this.bytesIn.add({ dbname }, bytes);
+    }
+
+    sent(dbname: string, type: MessageType, bytes: number, recipients = 1) {
+        if (recipients === 0) { return; }
+        this.messagesOut.add({ dbname, type }, recipients);
+        this.bytesOut.add({ dbname }, bytes * recipients);
+    }
+
+    backPressure(dbname: string) {
+        this.backpressure.add({ dbname });
+    }
+
+    rejectedUpgrade(status: number) {
+        this.rejected.add({ status });
+    }
+
+    throttled(dbname: string, scope: 'client' | 'database') {
+        this.throttledMessages.add({ dbname, scope });
+    }
+
+    /**
+     * Renders all metrics in Prometheus text format
+     * @param state current server state to add as gauges
+     */
+    render(state: {
+        databases: Array<{ dbname: string, clients: number, master: boolean }>,
+        largeMessages: { count: number, bytes: number },
+        ready: boolean
+    }) {
+        const clients = new Metric('acebase_ipc_clients', 'gauge', 'Connected clients');
+        const master = new Metric('acebase_ipc_master_connected', 'gauge', 'Whether a client with the master role is connected (1) or not (0)');
+        state.databases.forEach(db => {
+            clients.set({ dbname: db.dbname }, db.clients);
+            master.set({ dbname: db.dbname }, db.master ? 1 : 0);
+        });
+        const largeMessages = new Metric('acebase_ipc_large_messages', 'gauge', 'Large messages waiting to be downloaded');
+        largeMessages.set({}, state.largeMessages.count);
+        const largeMessageBytes = new Metric('acebase_ipc_large_message_bytes', 'gauge', 'Total size of large messages waiting to be downloaded');
+        largeMessageBytes.set({}, state.largeMessages.bytes);
+        const ready = new Metric('acebase_ipc_ready', 'gauge', 'Whether the server accepts connections (1) or not (0)');
+        ready.set({}, state.ready ? 1 : 0);
+
+        return [
+            ready, clients, master, this.messagesIn, this.messagesOut, this.bytesIn, this.bytesOut,
+            largeMessages, largeMessageBytes, this.backpressure, this.rejected, this.throttledMessages
+        ].map(metric => metric.render()).join('\n') + '\n';
+    }
+}
@@ -0,0 +1,114 @@
+export interface AceBaseIPCOutboxConfig {
+    /** Time in ms directed messages are kept for a disconnected peer. Default is 30000 (30s) */
+    ttl?: number
+    /** Maximum amount of bytes kept for each disconnected peer, the oldest messages are dropped when exceeded. Default is 1MB (1048576) */
+    maxBytes?: number
+}
+
+interface QueuedMessage {
+    /** id of the sending client */
+    from: string
+    msg: string | ArrayBuffer | Uint8Array
+    size: number
+    expires: number
+}
+
+interface Outbox {
+    disconnected: number
+    messages: QueuedMessage[]
+    size: number
+}
+
+/**
+ * Keeps directed messages for peers that recently disconnected, so they can be delivered once they reconnect
+ */
+export class AceBaseIPCOutboxes {
+
+    private outboxes: { [key: string]: Outbox } = {};
+    private interval?: NodeJS.Timeout;
+    private ttl: number;
+    private maxBytes: number;
+
+    /**
+     * @param config outbox settings
+     * @param undeliverable callback that is executed for each message that expired or was dropped before it could be delivered
+     */
+    constructor(config: AceBaseIPCOutboxConfig, private undeliverable: (dbname: string, from: string, to: string) => void) {
+        this.ttl = typeof config.ttl === 'number' ? config.ttl : 30e3;
+        this.maxBytes = typeof config.maxBytes === 'number' ? config.maxBytes : 1024 * 1024;
+    }
+
+    start() {
+        this.interval = setInterval(() => this.cleanup(), 1000);
+        this.interval.unref();
+    }
+
+    stop() {
+        this.interval && clearInterval(this.interval);
+        this.interval = undefined;
+        this.outboxes = {};
+    }
+
+    /**
+     * Creates an outbox for a peer that just disconnected
+     */
+    open(dbname: string, clientId: string) {
+        const key = `${dbname}/${clientId}`;
+        if (!(key in this.outboxes)) {
+            this.outboxes[key] = { disconnected: Date.now(), messages: [], size: 0 };
+        }
+    }
+
+    /**
+     * Queues a message for a recently disconnected peer.
+     * @returns `false` if the peer did not disconnect recently, the message was not queued
+     */
+    add(dbname: string, from: string, to: string, msg: string | ArrayBuffer | Uint8Array) {
+        const outbox = this.outboxes[`${dbname}/${to}`];
+        if (!outbox) { return false; }
+        const size = typeof msg === 'string' ? Buffer.byteLength(msg) : msg.byteLength;
+        outbox.messages.push({ from, msg, size, expires: Date.now() + this.ttl });
+        outbox.size += size;
+        while (outbox.size > this.maxBytes) {
+            // Drop oldest message
+            const dropped = outbox.messages.shift() as QueuedMessage;
+            outbox.size -= dropped.size;
+            this.undeliverable(dbname, dropped.from, to);
+        }
+        return true;
+    }
+
+    /**
+     * Removes the outbox of a reconnected peer
+     * @returns queued messages in the order they were sent
+     */
+    take(dbname: string, clientId: string) {
+        const key = `${dbname}/${clientId}`;
+        const outbox = this.outboxes[key];
+        if (!outbox) { return []; }
+        delete this.outboxes[key];
+        return outbox.messages.map(m => m.msg);
+    }
+
+    private cleanup() {
+        const now = Date.now();
+        Object.keys(this.outboxes).forEach(key => {
+            const outbox = this.outboxes[key];
+            const [dbname, to] = splitKey(key);
+            while (outbox.messages.length > 0 && outbox.messages[0].expires <= now) {
+                const expired = outbox.messages.shift() as QueuedMessage;
+                outbox.size -= expired.size;
+                this.undeliverable(dbname, expired.from, to);
+            }
+            if (outbox.messages.length === 0 && outbox.disconnected + this.ttl <= now) {
+                delete this.outboxes[key];
+            }
+        });
+    }
+}
+
+function splitKey(key: string) {
+    // dbnames cannot contain a slash because they are part of the url path, client ids can
+    const i = key.indexOf('/');
+    return [key.slice(0, i), key.slice(i + 1)];
+}
@@ -0,0 +1,88 @@
+/**
+ * IPC protocol versioning. Versions use semantic versioning: a major version bump breaks compatibility,
+ * a minor version bump adds backward compatible features, a patch version bump fixes bugs.
+ *
+ * During the handshake, clients send the newest protocol version they support (`v`), optionally the oldest version they
+ * support (`vmin`, defaults to `[major].0.0` of `v`) and the capabilities they support (`cap`, comma separated).
+ * The server agrees on the newest version both sides support, and the capabilities both sides support.
+ */
+
+/** Newest protocol version implemented by this package */
+export const PROTOCOL_VERSION = '1.1.0';
+
+/** Oldest protocol version this package still supports */
+export const MIN_PROTOCOL_VERSION = '1.0.0';
+
+/**
+ * Optional protocol features:
+ * - `binary`: binary frames (see `binary.ts`)
+ * - `requests`: requests and replies (`"req:"` and `"res:"`)
+ * - `topics`: topic subscriptions (`"sub:"`, `"unsub:"` and `"pub:"`)
+ * - `large-messages`: messages too large for the websocket connection are sent and received over http(s)
+ * - `notices`: the server sends `"slow:"`, `"throttled:"` and `"notice:"` messages
+ * - `outbox`: directed messages for recently disconnected peers are queued
+ * - `reconnect-grace`: the server waits for disconnected peers to reconnect before announcing their disconnect
+ * - `federation`: peers can be connected to other servers in a federation
+ * - `compression`: the server compresses large websocket messages if the client negotiated permessage-deflate
+ * - `locks`: the server manages path locks (`"lock:"` and `"unlock:"`, see `locks.ts`)
+ *
+ * There is no separate capability for delivery acknowledgements: peers that need them send requests, the reply is the
+ * acknowledgement. Directed messages to peers that aren't connected are reported with `"undeliverable:"` if the `outbox` is enabled
+ */
+export type AceBaseIPCCapability = 'binary' | 'requests' | 'topics' | 'large-messages' | 'notices' | 'outbox' | 'reconnect-grace' | 'federation' | 'compression' | 'locks';
+
+/**
+ * Types of the text messages (`"[type]:[value]"`) the server sends to clients. Peers can't send messages that start with
+ * them, so clients can trust these messages came from the server
+ */
+export const SERVER_MESSAGE_TYPES = [
+    'welcome', 'connect', 'disconnect', 'reconnect', 'master', 'shutdown', 'undeliverable', 'slow', 'throttled', 'notice',
+    'locked', 'lockerr', 'lockexpired', 'nopeer', 'timeout', 'req', 'res', 'pub', 'get', 'msg',
+];
+
+/**
+ * Checks whether a message sent by a peer could be mistaken for a message of the server
+ */
+export function isServerMessage(msg: string) {
+    const i = msg.indexOf(':');
+    return msg === 'pong' || (i > 0 && SERVER_MESSAGE_TYPES.includes(msg.slice(0, i)));
+}
+
+/**
+ * Parses a version string
+ * @returns `null` if the version is invalid
+ */
+export function parseVersion(version: string): [number, number, number] | null {
+    const match = /^(\d+)(?:\.(\d+))?(?:\.(\d+))?$/.exec(version);
+    return match ? [+match[1], +(match[2] || 0), +(match[3] || 0)] : null;
+}
+
+/**
+ * Compares 2 parsed versions
+ * @returns a negative number if `a` is older than `b`, a positive number if it is newer, `0` if they are equal
+ */
+export function compareVersions(a: [number, number, number], b: [number, number, number]) {
+    return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+}
+
+/**
+ * Agrees on the protocol version to use with a client
+ * @param max newest version the client supports
+ * @param min oldest version the client supports, defaults to `[major].0.0` of `max`
+ * @returns the agreed version, or an error describing which side must be updated
+ */
+export function negotiateVersion(max: string, min?: string): { version: string } | { error: string } {
+    const clientMax = parseVersion(max), clientMin = typeof min === 'string' ? parseVersion(min) : clientMax && [clientMax[0], 0, 0] as [number, number, number];
+    if (!clientMax || !clientMin) {
+        return { error: `Invalid client IPC protocol version "${max}"` };
+    }
+    const serverMax = parseVersion(PROTOCOL_VERSION) as [number, number, number], serverMin = parseVersion(MIN_PROTOCOL_VERSION) as [number, number, number];
+    if (compareVersions(clientMax, serverMin) < 0) {
+        return { error: `Client IPC protocol version ${max} is no longer supported, this server requires ${MIN_PROTOCOL_VERSION} or newer. Update the client` };
+    }
+    if (compareVersions(clientMin, serverMax) > 0) {
+        return { error: `Client requires IPC protocol version ${min} or newer, this server supports up to ${PROTOCOL_VERSION}. Update acebase-ipc-server package` };
+    }
+    const version = compareVersions(clientMax, serverMax) < 0 ? clientMax : serverMax;
+    return { version: version.join('.') };
+}
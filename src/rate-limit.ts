@@ -0,0 +1,186 @@
+export interface AceBaseIPCRateLimit {
+    /** Maximum number of messages per second */
+    messages?: number
+    /** Maximum number of bytes per second */
+    bytes?: number
+    /** Number of seconds worth of messages and bytes that can be sent in a single burst. Default is 1 */
+    burst?: number
+}
+
+export interface AceBaseIPCRateLimitConfig {
+    /** Limits for each client. Not limited by default */
+    client?: AceBaseIPCRateLimit
+    /** Limits for all clients of a database combined. Not limited by default */
+    database?: AceBaseIPCRateLimit
+    /**
+     * Failed websocket connection attempts (invalid token) allowed per remote address within `window` ms, before the address
+     * is blocked for `blockDuration` ms. Default is 10 attempts per minute, blocking for 5 minutes. Use `false` to disable.
+     * Only applies to network connections, clients of other transports (eg in-process clients) are never blocked
+     */
+    failedUpgrades?: false | { maxAttempts?: number, window?: number, blockDuration?: number }
+}
+
+export type RateLimitScope = 'client' | 'database';
+
+/**
+ * Token bucket that is refilled at a fixed rate, up to its capacity
+ */
+class TokenBucket {
+    private tokens: number;
+    private updated = Date.now();
+
+    constructor(private rate: number, private capacity: number) {
+        this.tokens = capacity;
+    }
+
+    private refill() {
+        const now = Date.now();
+        this.tokens = Math.min(this.capacity, this.tokens + (now - this.updated) / 1000 * this.rate);
+        this.updated = now;
+    }
+
+    /** Whether the bucket ran out of tokens */
+    get empty() {
+        this.refill();
+        return this.tokens <= 0;
+    }
+
+    /** Whether the bucket is full again, it can then be discarded */
+    get full() {
+        this.refill();
+        return this.tokens >= this.capacity;
+    }
+
+    /**
+     * Takes tokens from the bucket. Taking more tokens than available puts the bucket in debt, so single messages
+     * larger than the capacity are possible but delay subsequent ones
+     */
+    take(amount: number) {
+        this.refill();
+        this.tokens -= amount;
+    }
+}
+
+/**
+ * Message and byte buckets of a single client or database
+ */
+class Limiter {
+    private messages?: TokenBucket;
+    private bytes?: TokenBucket;
+
+    constructor(limit: AceBaseIPCRateLimit) {
+        const burst = limit.burst || 1;
+        this.messages = limit.messages ? new TokenBucket(limit.messages, limit.messages * burst) : undefined;
+        this.bytes = limit.bytes ? new TokenBucket(limit.bytes, limit.bytes * burst) : undefined;
+    }
+
+    get limited() { return !!(this.messages?.empty || this.bytes?.empty); }
+    get idle() { return (!this.messages || this.messages.full) && (!this.bytes || this.bytes.full); }
+
+    take(messages: number, bytes: number) {
+        this.messages?.take(messages);
+        this.bytes?.take(bytes);
+    }
+}
+
+interface FailedAttempts {
+    count: number
+    /** Time of the first failed attempt in the current window */
+    since: number
+    blockedUntil: number
+}
+
+/**
+ * Enforces message rate limits per client and per database, and blocks remote addresses with too many failed connection attempts
+ */
+export class AceBaseIPCRateLimits {
+
+    private limiters: { [key: string]: Limiter } = {};
+    private failures: { [address: string]: FailedAttempts } = {};
+    private interval?: NodeJS.Timeout;
+
+    constructor(private config: AceBaseIPCRateLimitConfig) {}
+
+    start() {
+        this.interval = setInterval(() => this.cleanup(), 10000);
+        this.interval.unref();
+    }
+
+    stop() {
+        this.interval && clearInterval(this.interval);
+        this.interval = undefined;
+        this.limiters = {};
+        this.failures = {};
+    }
+
+    /**
+     * Removes limiters that are full again and expired failed attempts, they are equivalent to new ones
+     */
+    private cleanup() {
+        Object.keys(this.limiters).forEach(key => {
+            this.limiters[key].idle && delete this.limiters[key];
+        });
+        const now = Date.now();
+        Object.keys(this.failures).forEach(address => {
+            const failures = this.failures[address];
+            if (failures.blockedUntil <= now && failures.since + this.failedUpgrades.window <= now) {
+                delete this.failures[address];
+            }
+        });
+    }
+
+    private getLimiter(key: string, limit?: AceBaseIPCRateLimit) {
+        if (!limit || (!limit.messages && !limit.bytes)) { return null; }
+        return this.limiters[key] || (this.limiters[key] = new Limiter(limit));
+    }
+
+    /**
+     * Checks whether a client is allowed to send a message, and takes it from its limits if so
+     * @param bytes size of the message
+     * @returns `null` if the message is allowed, or the scope of the limit that was hit
+     */
+    take(dbname: string, clientId: string, bytes: number): RateLimitScope | null {
+        const client = this.getLimiter(`client/${dbname}/${clientId}`, this.config.client);
+        const database = this.getLimiter(`database/${dbname}`, this.config.database);
+        if (client?.limited) { return 'client'; }
+        if (database?.limited) { return 'database'; }
+        client?.take(1, bytes);
+        database?.take(1, bytes);
+        return null;
+    }
+
+    private get failedUpgrades() {
+        const settings = this.config.failedUpgrades || {};
+        return {
+            maxAttempts: settings.maxAttempts || 10,
+            window: settings.window || 60e3,
+            blockDuration: settings.blockDuration || 300e3
+        };
+    }
+
+    /**
+     * Checks whether a remote address is blocked because of too many failed connection attempts
+     */
+    isBlocked(address: string) {
+        return this.config.failedUpgrades !== false && (this.failures[address]?.blockedUntil || 0) > Date.now();
+    }
+
+    /**
+     * Registers a failed connection attempt of a remote address
+     * @returns whether the address is now blocked
+     */
+    failed(address: string) {
+        if (this.config.failedUpgrades === false) { return false; }
+        const settings = this.failedUpgrades, now = Date.now();
+        let failures = this.failures[address];
+        if (!failures || failures.since + settings.window <= now) {
+            failures = this.failures[address] = { count: 0, since: now, blockedUntil: 0 };
+        }
+        failures.count++;
+        if (failures.count < settings.maxAttempts) { return false; }
+        failures.blockedUntil = now + settings.blockDuration;
+        failures.count = 0;
+        failures.since = now;
+        return true;
+    }
+}
@@ -0,0 +1,110 @@
+import fs from 'fs';
+import { AceBaseIPCLogger } from './logger';
+import { MessageType } from './metrics';
+
+export interface AceBaseIPCRecorderConfig {
+    /** File to write the recording to. Rotated files are renamed to `[path].1`, `[path].2` etc */
+    path: string
+    /** Whether to record message payloads. Default is `false` */
+    payloads?: boolean
+    /** Size in bytes at which the file is rotated. Default is 10MB */
+    maxFileSize?: number
+    /** Maximum number of files to keep, including the current one. Default is 5 */
+    maxFiles?: number
+}
+
+/**
+ * Frame routed by the server, written as a line of NDJSON to the recording
+ */
+export interface AceBaseIPCRecordedFrame {
+    /** Time the frame was routed, in ms since epoch */
+    time: number
+    dbname: string
+    /** id of the sending client */
+    from: string
+    kind: Exclude<MessageType, 'ping'> | 'subscribe' | 'unsubscribe'
+    /** id of the addressed peer of directed messages and requests */
+    to?: string
+    /** Topic of published messages and (un)subscriptions */
+    topic?: string
+    /** ids of the clients the frame was routed to */
+    recipients: string[]
+    /** ids of the servers in the federation the frame was forwarded to */
+    servers?: string[]
+    /** Whether the frame was queued in the outbox of a disconnected peer */
+    queued?: boolean
+    binary: boolean
+    /** Payload size in bytes */
+    size: number
+    /** Request id assigned by the server, for requests and responses */
+    request?: string
+    /** Whether the payload was sent through the large message store, it is never recorded then */
+    large?: boolean
+    /** Message payload, only recorded if `payloads` is enabled. Binary payloads are base64 encoded */
+    payload?: string
+}
+
+/**
+ * Records all frames routed by the server to a rotating NDJSON file, to debug IPC traffic.
+ * Recordings can be replayed with `replayRecording` (see `replay.ts`)
+ */
+export class AceBaseIPCRecorder {
+
+    private stream?: fs.WriteStream;
+    private size = 0;
+    private maxFileSize: number;
+    private maxFiles: number;
+
+    constructor(private config: AceBaseIPCRecorderConfig, private logger: AceBaseIPCLogger) {
+        this.maxFileSize = typeof config.maxFileSize === 'number' ? config.maxFileSize : 10 * 1024 * 1024;
+        this.maxFiles = typeof config.maxFiles === 'number' ? Math.max(1, config.maxFiles) : 5;
+    }
+
+    /** Whether payloads are recorded */
+    get payloads() { return this.config.payloads === true; }
+
+    /**
+     * Writes a frame to the recording. Its payload is removed if payloads are not recorded
+     */
+    record(frame: AceBaseIPCRecordedFrame) {
+        if (!this.payloads) { delete frame.payload; }
+        const line = JSON.stringify(frame) + '\n';
+        const bytes = Buffer.byteLength(line);
+        if (!this.stream) { this.open(); }
+        else if (this.size + bytes > this.maxFileSize) { this.rotate(); }
+        (this.stream as fs.WriteStream).write(line);
+        this.size += bytes;
+    }
+
+    /**
+     * Closes the recording file
+     */
+    close() {
+        this.stream?.end();
+        this.stream = undefined;
+    }
+
+    private open() {
+        const path = this.config.path;
+        this.size = fs.existsSync(path) ? fs.statSync(path).size : 0;
+        this.stream = fs.createWriteStream(path, { flags: 'a' });
+        this.stream.on('error', err => this.logger.error(`Error writing recording to ${path}`, { error: err }));
+    }
+
+    private rotate() {
+        this.close();
+        const path = this.config.path;
+        try {
+            // Shift rotated files, the oldest is overwritten
+            for (let i = this.maxFiles - 1; i > 0; i--) {
+                const from = i === 1 ? path : `${path}.${i - 1}`;
+                fs.existsSync(from) && fs.renameSync(from, `${path}.${i}`);
+            }
+            this.maxFiles === 1 && fs.unlinkSync(path);
+        }
+        catch (err) {
+            this.logger.error(`Error rotating recording ${path}`, { error: err });
+        }
+        this.open();
+    }
+}
@@ -0,0 +1,183 @@
+import fs from 'fs';
+import readline from 'readline';
+import { AceBaseIPCServer, AceBaseIPCServerConfig } from './server';
+import { AceBaseIPCClient, AceBaseIPCRequest } from './client';
+import { AceBaseIPCConsoleLogger } from './logger';
+import { AceBaseIPCRecordedFrame } from './recorder';
+import { AceBaseIPCMemoryTransport } from './memory';
+
+// Usage: node replay.js recording.ndjson.1 recording.ndjson [--port=9164] [--speed=1]
+// Replays the recording files (oldest first) and prints every message received by the mock clients as NDJSON
+
+export interface AceBaseIPCReplayOptions {
+    /** Port to run the test server on. Default is 9164 */
+    port?: number
+    /** Additional settings for the test server */
+    server?: Partial<AceBaseIPCServerConfig>
+    /** Replay speed relative to the recording, eg `2` replays twice as fast. Use `0` to replay as fast as possible. Default is `0` */
+    speed?: number
+    /** Time in ms to wait for the last messages to be delivered before stopping. Default is 500 */
+    settleTime?: number
+    /** In-memory transport to replay with instead of the network, `port` is not used then */
+    transport?: AceBaseIPCMemoryTransport
+    /** Callback for each message received by a mock client */
+    onDelivery?: (delivery: AceBaseIPCReplayDelivery) => void
+}
+
+/**
+ * Message received by a mock client during a replay
+ */
+export interface AceBaseIPCReplayDelivery {
+    dbname: string
+    /** id of the mock client that received the message */
+    clientId: string
+    kind: 'message' | 'request' | 'response' | 'publish'
+    /** Topic of published messages */
+    topic?: string
+    payload: string | Buffer
+}
+
+interface MockClient {
+    client: AceBaseIPCClient
+    /** Server assigned ids of recorded requests this client is about to receive, in order */
+    expectedRequests: string[]
+}
+
+/**
+ * Reads all frames of one or more recording files
+ * @param files recording files, oldest first
+ */
+export async function readRecording(files: string | string[]) {
+    const frames: AceBaseIPCRecordedFrame[] = [];
+    for (const file of ([] as string[]).concat(files)) {
+        const input = fs.createReadStream(file);
+        const lines = readline.createInterface({ input, crlfDelay: Infinity });
+        await new Promise<void>((resolve, reject) => {
+            lines.on('line', line => line.trim().length > 0 && frames.push(JSON.parse(line)));
+            lines.on('close', resolve);
+            input.on('error', reject);
+        });
+    }
+    return frames;
+}
+
+/**
+ * Replays a recording against a test server: connects a mock client for each client in the recording, and lets them
+ * send the recorded frames in order. Payloads that were not recorded are replaced with placeholders of the same size.
+ * Frames sent by different clients may arrive at the server in another order than recorded if they are replayed
+ * as fast as possible, use the `speed` option to replay them with their recorded timing.
+ * @param files recording files, oldest first
+ * @returns all messages received by the mock clients, in the order they were received
+ */
+export async function replayRecording(files: string | string[], options: AceBaseIPCReplayOptions = {}) {
+    const frames = await readRecording(files);
+    const port = options.port || 9164;
+    const transport = options.transport;
+    const server = new AceBaseIPCServer({
+        logger: new AceBaseIPCConsoleLogger({ level: 'warn' }),
+        ...options.server,
+        port,
+        ...(transport && { listen: false, transports: [transport] }),
+    });
+    await server.start();
+
+    const deliveries: AceBaseIPCReplayDelivery[] = [];
+    const deliver = (delivery: AceBaseIPCReplayDelivery) => {
+        deliveries.push(delivery);
+        options.onDelivery && options.onDelivery(delivery);
+    };
+    const requests: { [id: string]: { promise: Promise<AceBaseIPCRequest>, resolve(request: AceBaseIPCRequest): void } } = {};
+    const clients: { [key: string]: MockClient } = {};
+    try {
+        // Connect a mock client for each client in the recording
+        frames.forEach(frame => {
+            const ids = [frame.from, ...frame.recipients].concat(frame.to && frame.to !== 'all' ? [frame.to] : []);
+            ids.forEach(id => {
+                const key = `${frame.dbname}/${id}`;
+                if (clients[key]) { return; }
+                const client = new AceBaseIPCClient({ port, dbname: frame.dbname, id, binary: true, transport });
+                const mock: MockClient = { client, expectedRequests: [] };
+                client.on('message', payload => deliver({ dbname: frame.dbname, clientId: id, kind: 'message', payload }));
+                client.on('publish', (topic: string, payload: string) => deliver({ dbname: frame.dbname, clientId: id, kind: 'publish', topic, payload }));
+                client.on('request', (request: AceBaseIPCRequest) => {
+                    deliver({ dbname: frame.dbname, clientId: id, kind: 'request', payload: request.payload });
+                    const sid = mock.expectedRequests.shift();
+                    sid && requests[sid]?.resolve(request);
+                });
+                clients[key] = mock;
+            });
+        });
+        await Promise.all(Object.keys(clients).map(key => clients[key].client.connect()));
+
+        const speed = options.speed || 0;
+        for (let i = 0; i < frames.length; i++) {
+            const frame = frames[i];
+            if (speed > 0 && i > 0) {
+                await new Promise(resolve => setTimeout(resolve, (frame.time - frames[i - 1].time) / speed));
+            }
+            const sender = clients[`${frame.dbname}/${frame.from}`].client;
+            const payload = typeof frame.payload === 'string' ? frame.payload : 'x'.repeat(frame.size);
+            if (frame.kind === 'subscribe' || frame.kind === 'unsubscribe') {
+                await (frame.kind === 'subscribe' ? sender.subscribe(frame.topic as string) : sender.unsubscribe(frame.topic as string));
+            }
+            else if (frame.kind === 'publish') {
+                await sender.publish(frame.topic as string, payload);
+            }
+            else if (frame.binary) {
+                const data = typeof frame.payload === 'string' ? Buffer.from(frame.payload, 'base64') : Buffer.alloc(frame.size);
+                await sender.sendBinary(data, frame.kind === 'directed' ? frame.to : undefined);
+            }
+            else if (frame.kind === 'request') {
+                const sid = frame.request as string;
+                let resolve: (request: AceBaseIPCRequest) => void = () => {};
+                requests[sid] = { promise: new Promise(rs => resolve = rs), resolve };
+                frame.recipients.forEach(id => clients[`${frame.dbname}/${id}`].expectedRequests.push(sid));
+                sender.request(frame.to as string, payload)
+                    .then(reply => deliver({ dbname: frame.dbname, clientId: frame.from, kind: 'response', payload: reply }))
+                    .catch(() => { /* Peer not connected, or reply not recorded */ });
+            }
+            else if (frame.kind === 'response') {
+                const pending = requests[frame.request as string];
+                if (!pending) { continue; } // Request was sent before the recording started
+                const timeout = new Promise<void>(resolve => setTimeout(resolve, 5000)); // Don't wait forever if the request was not delivered
+                // The request may not have arrived yet, it is only removed once it was replied to
+                await Promise.race([pending.promise.then(request => request.reply(payload)), timeout]);
+                delete requests[frame.request as string];
+            }
+            else {
+                await sender.send(payload, frame.kind === 'directed' ? frame.to : undefined);
+            }
+        }
+
+        // Give the last messages time to arrive
+        await new Promise(resolve => setTimeout(resolve, typeof options.settleTime === 'number' ? options.settleTime : 500));
+    }
+    finally {
+        Object.keys(clients).forEach(key => clients[key].client.close());
+        await server.stop({ drainTimeoutMs: 0 });
+    }
+    return deliveries;
+}
+
+if (require.main === module) {
+    const args = process.argv.slice(2);
+    const option = (name: string) => args.find(arg => arg.startsWith(`--${name}=`))?.split('=')[1];
+    const files = args.filter(arg => !arg.startsWith('--'));
+    if (files.length === 0) {
+        console.error(`Usage: node replay.js [recording files, oldest first] [--port=9164] [--speed=1]`);
+        process.exit(1);
+    }
+    replayRecording(files, {
+        port: +(option('port') || 9164),
+        speed: +(option('speed') || 0),
+        onDelivery: delivery => {
+            const payload = typeof delivery.payload === 'string' ? delivery.payload : delivery.payload.toString('base64');
+            console.log(JSON.stringify({ ...delivery, payload }));
+        }
+    })
+    .then(() => process.exit(0))
+    .catch(err => {
+        console.error(`Replay failed:`, err);
+        process.exit(1);
+    });
+}
@@ -1,17 +1,50 @@
-import uWS from 'uWebSockets.js';
+import { EventEmitter } from 'events';
+import zlib from 'zlib';
+import { pipeline, Readable } from 'stream';
+import { AceBaseIPCOutboxConfig, AceBaseIPCOutboxes } from './outbox';
+import { AceBaseIPCRateLimitConfig, AceBaseIPCRateLimits } from './rate-limit';
+import { AceBaseIPCLockConfig, AceBaseIPCLockManager } from './locks';
+import { AceBaseIPCSSLConfig, AceBaseIPCTLSProxy, getFreePort, PROXY_ADDRESS_HEADER } from './tls';
+import { AceBaseIPCLargeMessageStore, AceBaseIPCLargeMessageStoreConfig, createLargeMessageStore, LargeMessageWriter } from './large-messages';
+import { streamChunkedResponse, streamResponse } from './http';
+import { AceBaseIPCHttpRequest, AceBaseIPCHttpResponse, AceBaseIPCSocket, AceBaseIPCTransport, RecognizedString } from './transport';
+import type { AceBaseIPCUWSTransport } from './uws';
+import { BinaryFrameType, createBinaryFrame, readBinaryHeader } from './binary';
+import { AceBaseIPCMetrics } from './metrics';
+import { AceBaseIPCConsoleLogger, AceBaseIPCLogger, LogContext } from './logger';
+import { AceBaseIPCAuthenticateCallback, AceBaseIPCCredentials, AceBaseIPCTokens, checkTokens, getToken, safeCompare } from './auth';
+import { AceBaseIPCCapability, isServerMessage, negotiateVersion } from './protocol';
+import { isValidTopic, isWildcardTopic, matchTopic } from './topics';
+import { AceBaseIPCRecordedFrame, AceBaseIPCRecorder, AceBaseIPCRecorderConfig } from './recorder';
+import { AceBaseIPCFederatedPeer, AceBaseIPCFederation, AceBaseIPCFederationConfig, FederationLink } from './federation';
 
 export interface AceBaseIPCServerConfig {
+    /** Host name or ip address of the interface to listen on. Default is all interfaces */
     host?: string, 
-    port: number,
+    /** Port to listen on, required unless `listen` is disabled */
+    port?: number,
+    /**
+     * Whether to listen for network connections, using uWebSockets.js. Default is `true`. Disable it to only accept clients
+     * connecting with `transports`, uWebSockets.js is not loaded then
+     */
+    listen?: boolean
+    /**
+     * Additional transports clients can connect with, eg an `AceBaseIPCMemoryTransport` for clients in the same process,
+     * or worker threads connected with `serveMessagePort`
+     */
+    transports?: AceBaseIPCTransport[]
+    /**
+     * Path of a unix domain socket to listen on instead of `host` and `port`, for clients running on the same machine.
+     * Requires uWebSockets.js v20.39.0 or newer, unless `ssl` is configured
+     */
+    path?: string,
     /** Used to check if connections made to this server are using the right database */
     // dbname: string, 
-    /** Provide SSL certificate details. Use either `certPath` and `keyPath`, or `pfxPath` and `passphrase` */
-    ssl?: { 
-        certPath?: string, 
-        keyPath?: string 
-        pfxPath?: string, 
-        passphrase?: string 
-    },
+    /** 
+     * Provide SSL certificate details. Use either `certPath` and `keyPath`, or `pfxPath` and `passphrase`. Configure `caPath` 
+     * to require client certificates (mutual TLS). TLS is terminated by Node.js, certificate files are reloaded when they change
+     */
+    ssl?: AceBaseIPCSSLConfig,
     /** 
      * Maximum amount of bytes allowed to be sent over the websocket connection. The websocket connection is closed
      * immediately if the payload exceeds this number. Default is 16KB (16384).
@@ -19,79 +52,1096 @@ export interface AceBaseIPCServerConfig {
      * to receive large messages the server will send `get:[msgId]` to the client over the websocket 
      * connection, the message can then be downloaded by calling GET `/[dbname]/receive?id=[clientId]&msgId=[id]` */
     maxPayload?: number
-    /** secret token to (help) prevent unauthorized clients to use the IPC channel */
+    /** 
+     * Maximum size in bytes of messages POSTed to `/[dbname]/send`, larger uploads are refused with `413`. Default is 100MB (104857600)
+     */
+    maxBodySize?: number
+    /** 
+     * secret token to (help) prevent unauthorized clients to use the IPC channel. This token grants access to all databases,
+     * use `tokens` to configure tokens per database. Clients can pass it in an `Authorization: Bearer [token]` header, or in the `t` query parameter
+     */
     token?: string
+    /** 
+     * Access tokens per database, optionally restricted to specific roles. Use `"*"` as dbname for tokens that may access all databases
+     * @example { orders: [{ token: 'secret', roles: ['worker'] }] }
+     */
+    tokens?: AceBaseIPCTokens
+    /** 
+     * Custom authentication callback, replaces the `token` and `tokens` checks if set. Must return (or resolve with) `true` to allow access
+     */
+    authenticate?: AceBaseIPCAuthenticateCallback
+    /** 
+     * Whether to promote a connected worker to master when the master of a database disconnects. 
+     * The worker that has been connected longest is elected, all peers are notified with `"master:[clientId]"`.
+     * Default is `false`
+     */
+    masterElection?: boolean
+    /**
+     * Enables queueing of directed messages for peers that recently disconnected. Queued messages are delivered in order
+     * once the peer reconnects with the same id. If a message can't be delivered within the configured `ttl`, or is 
+     * dropped because the outbox exceeds `maxBytes`, the sender is notified with `"undeliverable:[peerId]"`. 
+     * Disabled by default
+     */
+    outbox?: AceBaseIPCOutboxConfig
+    /** 
+     * Time in ms the server waits for a reply to a `"req:"` message before sending `"timeout:[id]"` to the requester.
+     * Default is 30000 (30s)
+     */
+    requestTimeout?: number
+    /**
+     * Settings for storing messages that are too large to be sent over websocket connections, until all their 
+     * recipients have downloaded them. By default they are kept in memory (max 100MB in total) for 60s
+     */
+    largeMessages?: AceBaseIPCLargeMessageStoreConfig
+    /**
+     * Logger to use. Default logs to the console at level `info`, with message payloads redacted. 
+     * Use `new AceBaseIPCConsoleLogger({ level, json, payloads })` to change these settings, or provide your own implementation
+     */
+    logger?: AceBaseIPCLogger
+    /**
+     * Time in ms a client can be silent before it is considered dead and disconnected. The server pings clients that have
+     * been idle for a while, websocket clients respond to those automatically. Use `0` to disable. Default is 60000 (60s)
+     */
+    idleTimeout?: number
+    /**
+     * Time in ms to wait before broadcasting `"disconnect:[clientId]"` when a client disconnects. If the client reconnects
+     * with the same id within this period, `"reconnect:[clientId]"` is broadcast instead, and pending requests, its master
+     * role and messages queued in its outbox are kept. Default is `0` (disabled)
+     */
+    reconnectGracePeriod?: number
+    /**
+     * How to handle clients that can't keep up with the messages sent to them (slow consumers). Senders of messages to a
+     * slow client are notified with `"slow:[clientId]"`
+     */
+    backpressure?: AceBaseIPCBackpressureConfig
+    /**
+     * Links this server with other IPC servers, so clients connected to different servers can communicate with each other.
+     * Servers exchange the presence of their clients and forward broadcast and directed (`"to:"`) messages. Requests are
+     * not forwarded between servers. Disabled by default
+     */
+    federation?: AceBaseIPCFederationConfig
+    /**
+     * Token that grants access to the admin API (`/admin/...`), which allows inspecting and disconnecting clients, draining or
+     * blocking databases, purging large messages and broadcasting notices. The admin API is disabled if not set
+     */
+    adminToken?: string
+    /**
+     * Records all routed frames to a rotating NDJSON file, to debug IPC traffic. Payloads are only recorded if `payloads` is enabled.
+     * Recordings can be replayed against a test server with `replayRecording`. Disabled by default
+     */
+    recorder?: AceBaseIPCRecorderConfig
+    /** Settings for the websocket connections with clients */
+    websocket?: AceBaseIPCWebSocketConfig
+    /**
+     * Whether to compress large message downloads with gzip for clients that accept it (`Accept-Encoding: gzip`).
+     * Gzipped uploads (`Content-Encoding: gzip`) are always accepted. Default is `false`
+     */
+    gzip?: boolean
+    /**
+     * Rate limits for messages per client and per database, and blocking of remote addresses with too many failed connection attempts.
+     * Messages are not rate limited by default, addresses are blocked after 10 failed attempts within a minute
+     */
+    rateLimit?: AceBaseIPCRateLimitConfig
+    /**
+     * Enables the lock service: clients can request shared and exclusive locks on paths of their database with `"lock:"`
+     * messages, so AceBase processes can coordinate transactions without a master process. Locks of a client are released
+     * when it disconnects. Can't be used with `federation`, locks are not shared between servers. Disabled by default
+     */
+    locks?: AceBaseIPCLockConfig
+}
+
+export interface AceBaseIPCWebSocketConfig {
+    /**
+     * Whether to use permessage-deflate compression: `'disabled'`, `'shared'` (1 compressor for all connections, uses 
+     * less memory) or `'dedicated'` (1 compressor per connection, compresses better). Default is `'disabled'`
+     */
+    compression?: 'disabled' | 'shared' | 'dedicated'
+    /** Minimum size in bytes of messages to compress, if compression is enabled. Default is 1024 */
+    compressionThreshold?: number
+    /**
+     * Maximum amount of bytes buffered for a connection before uWS drops messages. Default is `0` (unlimited), 
+     * slow clients are handled by the `backpressure` policy
+     */
+    maxBackpressure?: number
+    /**
+     * Time in seconds after which uWS closes connections that did not send or receive anything. Default is `0` (disabled),
+     * dead connections are detected with the server's own heartbeat (see `idleTimeout`)
+     */
+    idleTimeout?: number
+}
+
+export interface AceBaseIPCBackpressureConfig {
+    /** 
+     * Amount of bytes that may be buffered for a client by the websocket connection before it is considered slow.
+     * Default is 1MB (1048576)
+     */
+    maxBackpressure?: number
+    /**
+     * What to do with messages for a slow client:
+     * - `'buffer'`: buffer them in memory until the connection drains, new messages are dropped once the buffer is full
+     * - `'drop-oldest'`: buffer them in memory until the connection drains, the oldest buffered messages are dropped once the buffer is full
+     * - `'disconnect'`: disconnect the slow client
+     * Default is `'buffer'`
+     */
+    policy?: 'buffer' | 'drop-oldest' | 'disconnect'
+    /** Maximum amount of bytes buffered in memory for each slow client. Default is 16MB */
+    maxBufferSize?: number
+}
+
+interface QueuedFrame {
+    data: string | Uint8Array
+    isBinary: boolean
+    size: number
 }
 
-interface AceBaseIPCClient { 
+interface PendingRequest {
+    dbname: string
+    /** id of the requesting client */
+    from: string
+    /** id of the client the request was sent to */
+    to: string
+    /** request id used by the requesting client */
+    id: string
+    timeout: NodeJS.Timeout
+}
+
+export type AceBaseIPCClientRole = 'master' | 'worker';
+
+/**
+ * Details of a connected client, passed to server events and middleware
+ */
+export interface AceBaseIPCClientInfo {
+    id: string
+    dbname: string
+    /** Role declared by the client, `undefined` for clients that did not declare one */
+    role?: AceBaseIPCClientRole
+    /** Remote ip address of the client */
+    address: string
+    /** IPC protocol version agreed with the client */
+    version: string
+    capabilities: AceBaseIPCCapability[]
+    connected: Date
+}
+
+/**
+ * Text message received from a client, passed to middleware and `"message"` event listeners
+ */
+export interface AceBaseIPCMessageContext {
+    /** Client that sent the message */
+    client: AceBaseIPCClientInfo
+    /** Received message including its routing prefix, eg `"to:client2;hello"` or `"pub:[topic];[payload]"` */
+    message: string
+    /** If the payload was uploaded into the large message store, its id. `message` only contains the routing prefix then */
+    largeMessageId?: string
+    /**
+     * Whether the message is a binary frame. `message` then only contains its routing prefix in text form (`"to:[peerId];"`,
+     * or `""` for broadcasts). Middleware can drop binary frames, but not rewrite them
+     */
+    binary?: boolean
+    /** Payload of a binary frame, unless it was uploaded into the large message store */
+    payload?: Uint8Array
+}
+
+/**
+ * Middleware for messages received from clients, called before they are routed. Return a string to replace a text
+ * message, `false` to drop the message, or nothing to route it unchanged. Messages are dropped if the middleware throws
+ */
+export type AceBaseIPCMiddleware = (context: AceBaseIPCMessageContext) => string | false | void;
+
+/**
+ * Large message uploaded by a client, passed to `"largeMessage"` event listeners
+ */
+export interface AceBaseIPCLargeMessageInfo {
+    /** Client that uploaded the message */
+    client: AceBaseIPCClientInfo
+    /** id of the message in the large message store */
+    id: string
+    /** Size of the payload in bytes */
+    size: number
+    /** Whether the message was uploaded as a binary frame */
+    binary: boolean
+}
+
+/**
+ * Data added to the websocket connections of clients during the upgrade
+ */
+export interface AceBaseIPCConnectionData {
+    url: string
+    query: string
+    /** Parsed query of the connection url, its client id and role have been validated */
+    env: { id: string, role?: AceBaseIPCClientRole, [key: string]: string | undefined }
+    dbname: string
+    /** Remote ip address of the client */
+    address: string
+    /** Transport the client connected with */
+    transport: AceBaseIPCTransport
+    /** IPC protocol version agreed with the client */
+    version: string
+    capabilities: AceBaseIPCCapability[]
+    /** Set when a new connection with the same client id replaced this one, prevents master election when it closes */
+    replaced?: boolean
+    /** Set when the client was disconnected with the admin API, skips the reconnect grace period */
+    kicked?: boolean
+}
+
+/** Websocket connection of a client */
+type AceBaseIPCConnection = AceBaseIPCSocket<AceBaseIPCConnectionData>;
+
+interface AceBaseIPCPeer { 
     id: string, 
     dbname: string,
+    /** Role declared by the client, `undefined` for clients that did not declare one */
+    role?: AceBaseIPCClientRole,
+    /** Whether the client negotiated binary mode, it can send and receive binary frames */
+    binary: boolean,
     connected: Date,
-    ws: uWS.WebSocket,
-    sendMessage(message: any): Promise<void>
+    /** Time of the last sign of life from the client (message or pong), used to detect dead connections */
+    lastSeen: number,
+    /** Remote ip address of the client */
+    address: string,
+    /** IPC protocol version agreed with the client */
+    version: string,
+    /** Protocol capabilities agreed with the client */
+    capabilities: AceBaseIPCCapability[],
+    /** Topics the client subscribed to, may contain wildcards */
+    subscriptions: string[],
+    /** Message counters, shown by the admin API */
+    stats: { received: number, sent: number, bytesReceived: number, bytesSent: number },
+    ws: AceBaseIPCConnection,
+    /** Messages waiting for the websocket connection to drain */
+    queue: QueuedFrame[],
+    queueSize: number,
+    /** ids of clients that were notified this client is slow, cleared once it drained */
+    slowNotified: string[],
+    /** Whether the client was notified it is throttled, cleared once it sends a message that is allowed again */
+    throttled: boolean,
+    /**
+     * Sends a message to the client, honoring the back pressure policy
+     * @param message message to send
+     * @param sender client that sent the message, notified if this client is slow
+     */
+    sendMessage(message: any, sender?: AceBaseIPCPeer): void
 }
 
 /**
  * This flow is used for remote IPC communications
  * Handshake:
- * - Remote client connects to the websocket on url `/[dbname]/connect?id=[clientId]&v=[clientVersion]&t=[token]`
+ * - Remote client connects to the websocket on url `/[dbname]/connect?id=[clientId]&v=[maxVersion]&vmin=[minVersion]&cap=[capabilities]&t=[token]&role=[master|worker]`
+ * - `v` and `vmin` are the newest and oldest IPC protocol versions the client supports, `cap` the comma separated capabilities it supports
+ *   (see `protocol.ts`). If the server does not support any of the client's versions, the connection is refused with `409`
+ * - The token can also be passed in an `Authorization: Bearer [token]` header instead of the `t` query parameter, this applies to all http(s) requests too
+ * - If the client declares the `master` role while another master is connected to the same database, the connection is refused with `409`
  * - IPC Server adds it to the `clients` list for that dbname, if another client with the same id exists already, it's previous connection will be closed
- * - IPC Server sends `"welcome:{ maxPayload: [maxPayload] }"` to the client to notify the maxPayload size to use
- * - IPC Server broadcasts `"connect:clientid"`
+ * - Clients that support binary frames can add `&bin=1` to the url, or the `binary` capability
+ * - IPC Server sends `"welcome:{ maxPayload: [maxPayload], master: [masterId], binary: [true|false], version: [version], capabilities: [capabilities] }"` 
+ *   to the client to notify the maxPayload size to use, the current master (`null` if unknown), whether binary mode is enabled, the agreed protocol version
+ *   and the capabilities enabled for the client. Clients that don't send `cap` only get the capabilities of protocol version 1.0
+ * - `"req:"`, `"res:"`, `"sub:"`, `"unsub:"`, `"pub:"`, `"lock:"` and `"unlock:"` messages of clients that did not negotiate the
+ *   capability they require (`requests`, `topics` or `locks`) are dropped
+ * - IPC Server broadcasts `"connect:clientid"` to all other clients connected to the same database, 
+ *   suffixed with `";master:[masterId]"` if the database has a master
+ * 
+ * Master election:
+ * - If `masterElection` is enabled and the master disconnects, the longest connected worker is promoted and
+ *   the server broadcasts `"master:[clientId]"` to all clients connected to the same database (including the new master)
  * 
  * Connection checks:
  * - To check the connection, client can send a `"ping"` message, which will immediately be replied to with `"pong"`
+ * - The server sends websocket ping frames to clients that have been idle for a while, clients that don't show any sign of life
+ *   within the configured `idleTimeout` are disconnected
  * 
  * Message sending:
  * - If a client wants to send a message to 1 specific peer, it should prefix the message with `"to:[peerId];"`
  * - Messages without prefix are broadcast to all other peers
  * - If a message is prefixed `"to:all;"` the message will be sent to all other peers individually, this is provided for testing only - use unprefixed instead
  * - If the message to send exceeds the configured payload size, it must be http(s) POSTed to "/send?id=[clientId]&t=[token]" instead
+ * - If the `outbox` setting is enabled and a message is sent to a peer that recently disconnected, it is queued and delivered once the peer reconnects.
+ *   If that doesn't happen in time, the sender receives `"undeliverable:[peerId]"`
+ * 
+ * Topics:
+ * - Clients subscribe to a topic by sending `"sub:[topic]"`, and unsubscribe with `"unsub:[topic]"`. Topics are path-style, 
+ *   subscriptions can contain wildcards: `*` or `$name` matches 1 path segment, a trailing `**` any number of segments (see `topics.ts`)
+ * - A client publishes a message to a topic with `"pub:[topic];[message]"`, it is forwarded unchanged to all other clients 
+ *   with a matching subscription. Large messages are forwarded as `"pub:[topic];get:[msgId]"`
+ * - Subscriptions of all clients connected to a database can be fetched with http(s) GET `"/[dbname]/subscriptions"`
+ * 
+ * Requests:
+ * - To send a request to a peer and receive its reply, a client sends `"req:[requestId];to:[peerId];[message]"`
+ * - The peer receives `"req:[id];[message]"`, note the request id it receives is assigned by the server.
+ *   It must reply by sending `"res:[id];[message]"` with that id, which the server forwards to the requester as `"res:[requestId];[message]"`.
+ *   Replies of other clients than the addressed peer are dropped, as are directed messages that look like replies (see message receiving)
+ * - If the peer is not connected or disconnects before replying, the requester receives `"nopeer:[requestId]"`
+ * - If the peer does not reply within the configured `requestTimeout`, the requester receives `"timeout:[requestId]"`
+ * - Request and reply messages that exceed the configured payload size are forwarded as `"req:[id];get:[msgId]"` and `"res:[requestId];get:[msgId]"`
+ * 
+ * Binary frames:
+ * - Clients in binary mode can send binary websocket messages, framed as `[type][idLength][id][payload]` (see `binary.ts`):
+ *   type `1` broadcasts the payload, type `2` sends it to peer `id`. The server routes them without decoding the payload
+ * - Binary frames are forwarded unchanged, and only to peers in binary mode
+ * - Binary frames that exceed the configured payload size must be http(s) POSTed to "/send?id=[clientId]&t=[token]" with
+ *   `Content-Type: application/octet-stream`. Recipients then receive a binary frame of type `3` with the message id to download
+ *   the payload with from `"/[dbname]/receive"`. POSTs without a valid type `1` or `2` frame header are refused with `400`
  * 
  * Message receiving:
  * - Clients receive small messages through the websocket connection. 
  * - Messages sent from other peers will be prefixed with `"msg:"`
+ * - Messages of peers that start like a message of the server (eg `"locked:"`, `"res:"` or `"pong"`, see `SERVER_MESSAGE_TYPES`)
+ *   are dropped, so clients can trust those came from the server
  * - Messages too large to be sent over the websocket connection, will send `"get:[msgId]"` instead, client must http(s) GET `"/[dbname]/receive?id=[clientId]&msg=[msgId]&t=[token]"` to download the message
+ * - Each recipient of a large message can download it once, it is removed once all recipients have done so (or after the configured `ttl`)
+ * - Large messages POSTed to the server are streamed into the large message store, POSTs exceeding its configured `maxBytes` are refused with `413`
+ * - Large messages can be POSTed gzipped with `Content-Encoding: gzip`. If the `gzip` setting is enabled, downloads are gzipped
+ *   for clients sending `Accept-Encoding: gzip`
+ * - If `websocket.compression` is enabled, websocket messages larger than `websocket.compressionThreshold` are compressed
+ *   for clients that negotiated permessage-deflate
+ * 
+ * Slow consumers:
+ * - If a client can't keep up with the messages sent to it, they are handled according to the configured `backpressure.policy`:
+ *   buffered until its connection drains, dropped, or the client is disconnected
+ * - Senders of messages to a slow client are notified with `"slow:[clientId]"`, once until the slow client has caught up
  * 
+ * Rate limits:
+ * - If `rateLimit` is configured, messages of a client exceeding its own limits or those of its database are dropped. The client is notified with
+ *   `"throttled:client"` or `"throttled:database"`, once until it sends a message that is allowed again. POSTs to `"/[dbname]/send"` are refused with `429`
+ * - POSTs larger than the configured `maxBodySize` are refused with `413`
+ * - Remote addresses with too many failed connection attempts are refused with `429` for a while
+ * 
+ * Locks:
+ * - If `locks` is configured, clients request a lock on a path of their database by sending `"lock:[id];{ path, write, tid }"`,
+ *   `id` is chosen by the client. Write locks are exclusive, read locks are shared. Locks of the same transaction (`tid`) don't conflict
+ * - Locks are granted in the order they were requested, the server sends `"locked:[id]"` once granted. If the lock can't be granted
+ *   within `locks.waitTimeout`, would cause a deadlock or the request is invalid, it sends `"lockerr:[id];[timeout|deadlock|invalid|duplicate]"`
+ * - Clients release a lock (or cancel a waiting request) by sending `"unlock:[id]"`. Locks held longer than `locks.timeout`
+ *   are released by the server, which sends `"lockexpired:[id]"`
+ * - When a client disconnects, its waiting requests are cancelled and its locks released (after the reconnect grace period, if configured)
+ * - Locks are managed by each server, they can't be used together with federation
+ *
  * Disconnect:
- * - Upon disconnection of a remote peer, server broadcasts `"disconnect:clientid"` to all still connected
+ * - Upon disconnection of a remote peer, server broadcasts `"disconnect:clientid"` to all still connected to the same database
+ * - If a `reconnectGracePeriod` is configured, the server waits that long before broadcasting `"disconnect:clientid"`. If the peer
+ *   reconnects with the same id in the meantime, `"reconnect:clientid"` is broadcast instead of `"connect:clientid"`
+ *
+ * Peers:
+ * - A list of clients connected to a database can be fetched with http(s) GET `"/[dbname]/clients"`
+ * - A list of all active databases and their number of connected clients can be fetched with http(s) GET `"/databases?t=[token]"`
+ *
+ * Federation:
+ * - If `federation` is configured, the server links with the other IPC servers over websocket connections to `"/_federation"`,
+ *   authenticated with the federation token (see `federation.ts`)
+ * - Clients connected to other servers are treated as peers: they are announced with `"connect:"`, `"disconnect:"` and `"master:"`
+ *   messages and listed by GET `"/[dbname]/clients"`, broadcast and directed messages are forwarded to them
+ * - A master connected to another server also counts as the master of a database. If it disconnects, only the server it was
+ *   connected to elects a new master
+ *
+ * Admin API (if `adminToken` is configured, all requests must pass it):
+ * - http(s) GET `"/admin/databases"` returns all active databases, their number of clients and state (`"open"`, `"draining"` or `"blocked"`)
+ * - http(s) GET `"/admin/[dbname]/clients"` returns details of each client: address, version, role, message counters and buffered bytes
+ * - http(s) POST `"/admin/[dbname]/disconnect?id=[clientId]"` disconnects a client immediately, without reconnect grace period
+ * - http(s) POST `"/admin/[dbname]/drain"` refuses new connections to a database and sends `"shutdown:"` to its clients, so they can
+ *   reconnect elsewhere. POST `"/admin/[dbname]/block"` also disconnects them, POST `"/admin/[dbname]/unblock"` accepts connections again
+ * - http(s) POST `"/admin/large-messages/purge"` removes all pending large messages
+ * - http(s) GET `"/admin/[dbname]/locks"` returns the held and waiting locks of a database
+ * - http(s) POST `"/admin/[dbname]/notice"` sends the posted text to all clients of a database as `"notice:[text]"`, notices exceeding
+ *   the configured payload size are refused with `413`
+ *
+ * Monitoring:
+ * - http(s) GET `"/health"` returns `200` with `{ live: true, ready: true }` while the server accepts connections, `503` when it is stopping
+ * - http(s) GET `"/metrics?t=[token]"` returns server metrics in Prometheus text format
+ *
+ * Shutdown:
+ * - When the server is stopping, it sends `"shutdown:"` to all connected clients so they can reconnect elsewhere (or later).
+ *   No new connections are accepted from that moment on, pending large messages can still be downloaded until the 
+ *   drain timeout expires, after which all connections are closed.
+ *
+ * Embedding:
+ * - The server emits events: `"connect"` `(client: AceBaseIPCClientInfo)` when a client connected (or reconnected),
+ *   `"disconnect"` `(client: AceBaseIPCClientInfo)` when its peers are notified it disconnected (after the reconnect grace period),
+ *   `"message"` `(context: AceBaseIPCMessageContext)` for each text message received from a client before it is routed,
+ *   `"largeMessage"` `(message: AceBaseIPCLargeMessageInfo)` when a client uploaded a large message, and `"error"` `(err: Error)`
+ * - Middleware added with `use` can inspect, rewrite or drop text messages and inspect or drop binary frames before they are
+ *   routed (see `AceBaseIPCMiddleware`). Messages forwarded by other servers in the federation are not passed to middleware
+ * - Errors thrown by event listeners are reported with the `"error"` event, they don't interrupt the handling of clients
+ * - Custom http routes can be added to the uWebSockets.js `app` once the server started
  *
  */
-export class AceBaseIPCServer {
+export class AceBaseIPCServer extends EventEmitter {
 
     private clients: {
-        [dbname: string]: AceBaseIPCClient[]
+        [dbname: string]: AceBaseIPCPeer[]
      } = {};
 
-    constructor(private config: AceBaseIPCServerConfig) {}
+    /** Transport for network connections, unless `listen` is disabled */
+    private network?: AceBaseIPCUWSTransport;
+    /** All transports clients connect with */
+    private transports: AceBaseIPCTransport[] = [];
+    private started = false;
+    private stopping = false;
+    private outboxes?: AceBaseIPCOutboxes;
+    private tls?: AceBaseIPCTLSProxy;
+    private rateLimits = new AceBaseIPCRateLimits({});
+    private locks?: AceBaseIPCLockManager;
+    private heartbeat?: NodeJS.Timeout;
+    /** Clients that disconnected within the reconnect grace period */
+    private disconnecting: { [key: string]: { client: AceBaseIPCPeer, timeout: NodeJS.Timeout } } = {};
+    private federation?: AceBaseIPCFederation;
+    private recorder?: AceBaseIPCRecorder;
+    /** Databases that were drained or blocked with the admin API */
+    private databaseStates: { [dbname: string]: 'draining' | 'blocked' } = {};
+    private middleware: AceBaseIPCMiddleware[] = [];
+    readonly logger: AceBaseIPCLogger = this.config.logger || new AceBaseIPCConsoleLogger();
+
+    constructor(private config: AceBaseIPCServerConfig) {
+        super();
+    }
+
+    /**
+     * uWebSockets.js app of the server once it started, to add custom http routes to. `undefined` if `listen` is disabled.
+     * With `ssl`, the app listens on a local port behind the TLS proxy: custom routes are not protected by its client
+     * certificate checks, and are also reachable by local processes connecting to that port directly
+     * @example
+     * await server.start();
+     * server.app?.get('/audit', (res, req) => res.end('ok'));
+     */
+    get app() {
+        return this.network?.app;
+    }
+
+    /**
+     * Adds middleware for messages received from clients, it is called after previously added middleware
+     * @example
+     * // Drop broadcast messages of a tenant's clients
+     * server.use(({ client, message }) => client.id.startsWith('tenant1-') && !message.startsWith('to:') ? false : undefined);
+     */
+    use(middleware: AceBaseIPCMiddleware) {
+        this.middleware.push(middleware);
+        return this;
+    }
 
     getClients(dbname: string) {
         if (!(dbname in this.clients)) { this.clients[dbname] = []; }
         return this.clients[dbname];
     }
 
-    start(): Promise<void> {
-        let resolve:()=>void, reject:(err:Error)=>void, promise = new Promise<void>((rs, rj) => { resolve = rs; reject = rj; });
+    private async authenticate(dbname: string, clientId: string | undefined, credentials: AceBaseIPCCredentials) {
+        try {
+            if (typeof this.config.authenticate === 'function') {
+                return (await this.config.authenticate(dbname, clientId, credentials)) === true;
+            }
+            return checkTokens(this.config, dbname, credentials);
+        }
+        catch (err) {
+            this.reportError(`Error authenticating client`, err, { dbname, clientId });
+            return false;
+        }
+    }
+
+    /**
+     * Logs an error, and emits it as `"error"` event if there are listeners
+     */
+    private reportError(message: string, err: any, context: LogContext = {}) {
+        this.logger.error(message, { ...context, error: err });
+        this.listenerCount('error') > 0 && this.emit('error', err instanceof Error ? err : new Error(String(err)));
+    }
+
+    getMaster(dbname: string): AceBaseIPCPeer | AceBaseIPCFederatedPeer | undefined {
+        const master = this.getClients(dbname).find(client => client.role === 'master');
+        if (master) { return master; }
+
+        // A master that disconnected within the reconnect grace period keeps its role
+        const key = Object.keys(this.disconnecting).find(key => {
+            const { client } = this.disconnecting[key];
+            return client.dbname === dbname && client.role === 'master';
+        });
+        if (key) { return this.disconnecting[key].client; }
+
+        // Master may be connected to another server in the federation
+        return this.federation?.getClients(dbname).find(peer => peer.role === 'master');
+    }
+
+    /**
+     * Handles the disconnection of a client: notifies its peers, cancels pending requests and elects a new master if needed
+     * @param client client that disconnected
+     * @param elect whether a new master should be elected if the client was the master
+     */
+    private handleDisconnect(client: AceBaseIPCPeer, elect: boolean) {
+        this.publish(`presence-${client.dbname}`, `disconnect:${client.id}`);
+        this.federation?.announce('disconnect', client);
+
+        // Let requesters know this client won't reply
+        this.cancelRequests(client);
+
+        // Release its locks, unless a new connection with the same id replaced this one
+        elect && this.locks?.release(client.dbname, client.id);
+
+        if (elect && client.role === 'master' && this.config.masterElection && !this.stopping) {
+            // Promote the longest connected worker
+            const worker = this.getClients(client.dbname).find(client => client.role === 'worker');
+            if (worker) {
+                this.logger.info(`Master disconnected, promoting worker ${worker.id} to master`, { dbname: client.dbname, clientId: client.id });
+                worker.role = 'master';
+                this.publish(`presence-${client.dbname}`, `master:${worker.id}`);
+                this.federation?.announce('master', worker);
+            }
+        }
+        this.notify('disconnect', getClientInfo(client));
+    }
+
+    /**
+     * Emits an event. Errors thrown by its listeners are reported, so they don't interrupt the handling of clients
+     */
+    private notify(event: 'connect' | 'disconnect', client: AceBaseIPCClientInfo): void;
+    private notify(event: 'message', context: AceBaseIPCMessageContext): void;
+    private notify(event: 'largeMessage', message: AceBaseIPCLargeMessageInfo): void;
+    private notify(event: string, arg: unknown) {
+        try {
+            this.emit(event, arg);
+        }
+        catch (err) {
+            this.reportError(`Error in "${event}" event listener`, err);
+        }
+    }
+
+    /** Whether the server accepts connections */
+    private get ready() {
+        return this.started && !this.stopping && (!this.network || this.network.listening);
+    }
+
+    /**
+     * Publishes a message to the subscribers of a topic on all transports
+     * @param sender socket publishing the message, it does not receive the message itself
+     */
+    private publish(topic: string, message: RecognizedString, isBinary = false, compress = false, sender?: AceBaseIPCConnection) {
+        this.transports.forEach(transport => {
+            sender?.transport === transport
+                ? sender.publish(topic, message, isBinary, compress)
+                : transport.publish(topic, message, isBinary, compress);
+        });
+    }
+
+    /**
+     * Checks whether a websocket message of given size should be compressed
+     */
+    private compress(size: number) {
+        const websocket = this.config.websocket || {};
+        return !!websocket.compression && websocket.compression !== 'disabled' && size >= (websocket.compressionThreshold ?? 1024);
+    }
+
+    /**
+     * Gets the remote address of a client. Requests forwarded by the TLS proxy contain the address in a header
+     */
+    private getRemoteAddress(res: AceBaseIPCHttpResponse, req: AceBaseIPCHttpRequest) {
+        if (this.tls?.isForwarded(req)) {
+            return req.getHeader(PROXY_ADDRESS_HEADER);
+        }
+        return Buffer.from(res.getRemoteAddressAsText()).toString('utf8');
+    }
+
+    private get maxBackpressure() {
+        return this.config.backpressure?.maxBackpressure ?? 1024 * 1024;
+    }
+
+    /**
+     * Checks whether a message of given size can't be sent to a client right away because of back pressure. Messages
+     * larger than `maxBackpressure` are sent once nothing is buffered, they would never fit otherwise
+     */
+    private isCongested(client: AceBaseIPCPeer, size: number) {
+        if (client.queue.length > 0) { return true; }
+        const buffered = client.ws.getBufferedAmount();
+        return buffered > 0 && buffered + size > this.maxBackpressure;
+    }
+
+    /**
+     * Checks whether a message sent by a client exceeds the rate limits. The client is notified with `"throttled:[scope]"` 
+     * the first time, until it sends a message that is allowed again
+     * @param size message size in bytes
+     */
+    private isThrottled(client: AceBaseIPCPeer, size: number) {
+        const scope = this.rateLimits.take(client.dbname, client.id, size);
+        if (!scope) {
+            client.throttled = false;
+            return false;
+        }
+        this.metrics.throttled(client.dbname, scope);
+        if (!client.throttled) {
+            this.logger.warn(`Client exceeds the ${scope} rate limit, dropping its messages`, { dbname: client.dbname, clientId: client.id });
+            client.throttled = true;
+            client.capabilities.includes('notices') && client.ws.send(`throttled:${scope}`, false, false);
+        }
+        return true;
+    }
+
+    /**
+     * Sends a message to a client, or handles it according to the back pressure policy if the client is slow
+     */
+    private send(client: AceBaseIPCPeer, msg: any, sender?: AceBaseIPCPeer) {
+        const isBinary = msg instanceof ArrayBuffer || msg instanceof Uint8Array;
+        const data: string | ArrayBuffer | Uint8Array = typeof msg === 'string' || isBinary ? msg : `msg:${JSON.stringify(msg)}`;
+        const size = typeof data === 'string' ? Buffer.byteLength(data) : data.byteLength;
+        if (!this.isCongested(client, size)) {
+            client.ws.send(data, isBinary, this.compress(size));
+            client.stats.sent++;
+            client.stats.bytesSent += size;
+            return;
+        }
+
+        // Client is slow
+        const settings = this.config.backpressure || {};
+        const policy = settings.policy || 'buffer';
+        const maxBufferSize = settings.maxBufferSize ?? 16 * 1024 * 1024;
+        this.metrics.backPressure(client.dbname);
+        if (sender && sender !== client && !client.slowNotified.includes(sender.id) && sender.capabilities.includes('notices')) {
+            client.slowNotified.push(sender.id);
+            sender.ws.send(`slow:${client.id}`, false, false);
+        }
+        if (policy === 'disconnect') {
+            this.logger.warn(`Client can't keep up with its messages, disconnecting`, { dbname: client.dbname, clientId: client.id });
+            return client.ws.close();
+        }
+        if (policy === 'drop-oldest') {
+            while (client.queue.length > 0 && client.queueSize + size > maxBufferSize) {
+                const dropped = client.queue.shift() as QueuedFrame;
+                client.queueSize -= dropped.size;
+            }
+        }
+        if (client.queueSize + size > maxBufferSize) {
+            return this.logger.warn(`Back pressure buffer of client is full, message dropped`, { dbname: client.dbname, clientId: client.id });
+        }
+        if (client.queue.length === 0) {
+            this.logger.warn(`Back pressure on client is building up`, { dbname: client.dbname, clientId: client.id });
+        }
+        // Binary frames received over a websocket are only valid while being handled, copy them
+        const frame = typeof data === 'string' ? data : Buffer.from(data instanceof ArrayBuffer ? new Uint8Array(data) : data);
+        client.queue.push({ data: frame, isBinary, size });
+        client.queueSize += size;
+    }
+
+    /**
+     * Sends buffered messages to a client once its websocket connection has drained
+     */
+    private flush(client: AceBaseIPCPeer) {
+        while (client.queue.length > 0) {
+            const buffered = client.ws.getBufferedAmount();
+            if (buffered > 0 && buffered + client.queue[0].size > this.maxBackpressure) { break; }
+            const frame = client.queue.shift() as QueuedFrame;
+            client.queueSize -= frame.size;
+            client.ws.send(frame.data, frame.isBinary, this.compress(frame.size));
+            client.stats.sent++;
+            client.stats.bytesSent += frame.size;
+        }
+        if (client.queue.length === 0) {
+            client.slowNotified = [];
+        }
+    }
+
+    /**
+     * Links this server with the other servers in the federation: accepts their links on `/_federation` of all transports,
+     * and connects to them
+     * @param token token servers authenticate with
+     */
+    private startFederation(transports: AceBaseIPCTransport[], settings: AceBaseIPCFederationConfig, token: string) {
+        const federation = new AceBaseIPCFederation(settings, token, {
+            getClients: () => Object.keys(this.clients).reduce((all, dbname) => all.concat(this.clients[dbname]), [] as AceBaseIPCPeer[]),
+            presence: (event, peer) => {
+                const master = event === 'connect' || event === 'reconnect' ? this.getMaster(peer.dbname) : undefined;
+                this.publish(`presence-${peer.dbname}`, `${event}:${peer.id}` + (master ? `;master:${master.id}` : ''));
+            },
+            message: (dbname, from, to, payload, topic) => this.handleFederatedMessage(dbname, from, to, payload, topic),
+            binaryMessage: (dbname, from, frame) => this.handleFederatedBinaryMessage(dbname, from, frame),
+        }, this.logger, this.tls && (() => (this.tls as AceBaseIPCTLSProxy).getClientOptions()));
+        this.federation = federation;
+
+        transports.forEach(transport => transport.ws<{ server: string, link?: FederationLink }>(`/_federation`, {
+            idleTimeout: 0,
+            maxBackpressure: 0,
+            maxPayloadLength: 128 * 1024 * 1024,    // Links forward large messages in full
+            compression: 'disabled',
+            upgrade: (res, req, context) => {
+                const query = parseQuery(req.getQuery());
+                const credentials = getToken(req.getHeader('authorization'), query.t);
+                let err;
+                if (this.stopping) {
+                    err = `503 Server is shutting down`;
+                }
+                else if (typeof credentials !== 'string' || !safeCompare(credentials, token)) {
+                    err = `403 Unauthorized`;
+                }
+                if (err) {
+                    this.logger.warn(`Refused federation link: ${err}`, { server: query.id });
+                    res.writeStatus(err);
+                    return res.end(err);
+                }
+                res.upgrade({ server: query.id },
+                    req.getHeader('sec-websocket-key'),
+                    req.getHeader('sec-websocket-protocol'),
+                    req.getHeader('sec-websocket-extensions'),
+                    context
+                );
+            },
+            open: (ws) => {
+                ws.link = federation.accept((data, isBinary) => ws.send(data, isBinary, false), () => ws.close());
+            },
+            close: (ws) => {
+                federation.closed(ws.link as FederationLink);
+            },
+            message: (ws, buffer, isBinary) => {
+                // buffer can't be used after this callback returns, copy it
+                federation.receive(ws.link as FederationLink, Buffer.from(buffer.slice(0)), isBinary);
+            },
+        }));
+        federation.start();
+    }
+
+    /**
+     * Adds the admin API routes, see the protocol description above
+     */
+    private addAdminRoutes(transport: AceBaseIPCTransport, token: string) {
+        const isAdmin = (req: AceBaseIPCHttpRequest) => {
+            const credentials = getToken(req.getHeader('authorization'), parseQuery(req.getQuery()).t);
+            return typeof credentials === 'string' && safeCompare(credentials, token);
+        };
+        const admin = (handler: (res: AceBaseIPCHttpResponse, req: AceBaseIPCHttpRequest) => any) => (res: AceBaseIPCHttpResponse, req: AceBaseIPCHttpRequest) => {
+            if (!isAdmin(req)) {
+                this.logger.warn(`Refused admin request: 401 Unauthorized`, { url: req.getUrl() });
+                res.writeStatus('401 Unauthorized');
+                return res.end('Unauthorized');
+            }
+            const result = handler(res, req);
+            if (typeof result !== 'undefined') {
+                res.writeHeader('Content-Type', 'application/json');
+                res.end(JSON.stringify(result));
+            }
+        };
+
+        transport.get(`/admin/databases`, admin(() => {
+            const dbnames = Object.keys(this.clients).filter(dbname => this.clients[dbname].length > 0);
+            Object.keys(this.databaseStates).forEach(dbname => !dbnames.includes(dbname) && dbnames.push(dbname));
+            return dbnames.map(dbname => ({ dbname, clients: this.getClients(dbname).length, state: this.databaseStates[dbname] || 'open' }));
+        }));
+
+        transport.get(`/admin/:dbname/clients`, admin((res, req) => {
+            return this.getClients(req.getParameter(0)).map(client => ({
+                id: client.id,
+                address: client.address,
+                version: client.version,
+                capabilities: client.capabilities,
+                role: client.role,
+                binary: client.binary,
+                connected: client.connected.getTime(),
+                lastSeen: client.lastSeen,
+                ...client.stats,
+                bufferedBytes: client.ws.getBufferedAmount() + client.queueSize,
+            }));
+        }));
+
+        transport.post(`/admin/:dbname/disconnect`, admin((res, req) => {
+            const dbname = req.getParameter(0), id = parseQuery(req.getQuery()).id;
+            const client = this.getClients(dbname).find(client => client.id === id);
+            if (!client) {
+                res.writeStatus('404 Not Found');
+                return res.end('Not Found');
+            }
+            this.logger.warn(`Disconnecting client by admin request`, { dbname, clientId: client.id });
+            client.ws.kicked = true; // Skips the reconnect grace period
+            client.ws.close();
+            return { disconnected: client.id };
+        }));
+
+        const setState = (state: 'draining' | 'blocked' | 'open') => admin((res, req) => {
+            const dbname = req.getParameter(0);
+            this.logger.warn(`Database state set to ${state} by admin request`, { dbname });
+            if (state === 'open') {
+                delete this.databaseStates[dbname];
+                return { dbname, state };
+            }
+            this.databaseStates[dbname] = state;
+            this.getClients(dbname).slice().forEach(client => {
+                if (state === 'draining') {
+                    return client.ws.send('shutdown:', false, false);
+                }
+                client.ws.kicked = true;
+                client.ws.close();
+            });
+            return { dbname, state };
+        });
+        transport.post(`/admin/:dbname/drain`, setState('draining'));
+        transport.post(`/admin/:dbname/block`, setState('blocked'));
+        transport.post(`/admin/:dbname/unblock`, setState('open'));
+
+        transport.get(`/admin/:dbname/locks`, admin((res, req) => {
+            return this.locks?.getLocks(req.getParameter(0)) || [];
+        }));
+
+        transport.post(`/admin/large-messages/purge`, admin(() => {
+            const purged = this.largeMessages.count;
+            this.largeMessages.clear();
+            this.logger.warn(`Purged ${purged} large messages by admin request`);
+            return { purged };
+        }));
+
+        transport.post(`/admin/:dbname/notice`, admin((res, req) => {
+            const dbname = req.getParameter(0);
+            let aborted = false;
+            res.onAborted(() => { aborted = true; });
+            // Notices are sent over the websocket connections, they must not exceed the payload size
+            readBody(res, (this.config.maxPayload as number) - 'notice:'.length, data => {
+                if (aborted) { return; }
+                if (data === null) {
+                    res.writeStatus('413 Payload Too Large');
+                    return res.end('Payload Too Large');
+                }
+                const clients = this.getClients(dbname).filter(client => client.capabilities.includes('notices'));
+                const notice = `notice:${data.toString('utf8')}`;
+                clients.forEach(client => client.sendMessage(notice));
+                this.metrics.sent(dbname, 'broadcast', Buffer.byteLength(notice), clients.length);
+                res.writeHeader('Content-Type', 'application/json');
+                res.end(JSON.stringify({ recipients: clients.length }));
+            });
+        }));
+    }
+
+    /**
+     * Gets the ids of the servers in the federation that have clients connected to a database, or a specific client
+     */
+    private getServers(dbname: string, clientId?: string) {
+        return this.federation?.getServers(dbname, clientId) || [];
+    }
+
+    /**
+     * Forwards a text message to clients connected to other servers in the federation
+     * @param servers ids of the servers to forward the message to
+     * @param largeMessageId if the message payload was streamed into the large message store, its id. It must have been published
+     * to recipient `"~[serverId]"` for each server, `payload` is ignored
+     * @param topic topic the message was published to, if any
+     */
+    private federate(servers: string[], dbname: string, from: string, to: string | null, payload: string, largeMessageId?: string, topic?: string) {
+        servers.forEach(server => {
+            const data = largeMessageId
+                ? this.readLargeMessage(largeMessageId, `~${server}`).then(data => data && data.toString('utf8'))
+                : payload;
+            this.federation?.send(server, dbname, from, to, data, topic);
+        });
+    }
+
+    /**
+     * Reads an entire message from the large message store
+     * @returns `null` if the message does not exist, or the recipient is not allowed to (or already did) download it
+     */
+    private async readLargeMessage(id: string, recipient: string) {
+        const stream = await this.largeMessages.createReadStream(id, recipient);
+        if (!stream) { return null; }
+        const chunks: Buffer[] = [];
+        return new Promise<Buffer>((resolve, reject) => {
+            stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+            stream.on('end', () => resolve(Buffer.concat(chunks)));
+            stream.on('error', reject);
+        });
+    }
+
+    /**
+     * Delivers a text message that another server in the federation forwarded from one of its clients
+     * @param to id of the recipient, `null` for broadcasts
+     * @param topic topic the message was published to, it is only delivered to subscribers then
+     */
+    private handleFederatedMessage(dbname: string, from: string, to: string | null, payload: string, topic?: string) {
+        if (typeof topic === 'string') {
+            const subscribers = this.getSubscribers(dbname, topic);
+            const forward = this.preparePayload(payload, subscribers.map(client => client.id));
+            if (forward === null) { return; }
+            const frame = `pub:${topic};${forward}`;
+            subscribers.forEach(client => client.sendMessage(frame));
+            return this.metrics.sent(dbname, 'publish', Buffer.byteLength(frame), subscribers.length);
+        }
+        const clients = this.getClients(dbname);
+        const forwardTo = to === null ? clients : clients.filter(client => client.id === to);
+        const queue = to !== null && forwardTo.length === 0 && this.outboxes;
+        const forward = this.preparePayload(payload, queue ? [to as string] : forwardTo.map(client => client.id));
+        if (forward === null) { return; }
+        forwardTo.forEach(client => client.sendMessage(forward));
+        this.metrics.sent(dbname, to === null ? 'broadcast' : 'directed', Buffer.byteLength(forward), forwardTo.length);
+        if (queue && !this.outboxes?.add(dbname, from, to as string, forward) && forward !== payload) {
+            this.largeMessages.delete(forward.slice(4));
+        }
+    }
+
+    /**
+     * Delivers a binary frame that another server in the federation forwarded from one of its clients
+     */
+    private handleFederatedBinaryMessage(dbname: string, from: string, frame: Buffer) {
+        const header = readBinaryHeader(frame);
+        if (!header || ![BinaryFrameType.Broadcast, BinaryFrameType.Directed].includes(header.type)) {
+            return this.logger.warn(`Received invalid binary frame from federation`, { dbname, clientId: from });
+        }
+        const clients = this.getClients(dbname);
+        const forwardTo = header.type === BinaryFrameType.Directed
+            ? clients.filter(client => client.id === header.id && client.binary)
+            : clients.filter(client => client.binary);
+        const queue = header.type === BinaryFrameType.Directed && forwardTo.length === 0 && this.outboxes;
+        let forward = frame, largeMessageId = '';
+        if (frame.length > (this.config.maxPayload as number)) {
+            // Too large to send over the websocket connections of our clients
+            largeMessageId = generateID();
+            const writer = this.largeMessages.createWriter(largeMessageId);
+            if (!writer.write(frame.slice(header.length))) {
+                writer.abort();
+                return this.logger.warn(`Large message store is full, message is not forwarded`, { dbname, recipients: forwardTo.length });
+            }
+            writer.end().catch(err => this.reportError(`Error storing large message`, err, { dbname }));
+            this.largeMessages.publish(largeMessageId, queue ? [header.id] : forwardTo.map(client => client.id));
+            forward = createBinaryFrame(BinaryFrameType.Download, largeMessageId);
+        }
+        forwardTo.forEach(client => client.sendMessage(forward));
+        this.metrics.sent(dbname, header.type === BinaryFrameType.Directed ? 'directed' : 'broadcast', forward.byteLength, forwardTo.length);
+        if (queue && !this.outboxes?.add(dbname, from, header.id, forward)) {
+            largeMessageId && this.largeMessages.delete(largeMessageId);
+        }
+    }
+
+    /**
+     * Pings idle clients, and disconnects clients that have not shown any sign of life within the idle timeout
+     */
+    private checkHeartbeats(idleTimeout: number, interval: number) {
+        const now = Date.now();
+        Object.keys(this.clients).forEach(dbname => {
+            this.clients[dbname].slice().forEach(client => {
+                const idle = now - client.lastSeen;
+                if (idle > idleTimeout) {
+                    this.logger.warn(`Client has been idle for ${idle}ms, disconnecting`, { dbname, clientId: client.id });
+                    client.ws.close();
+                }
+                else if (idle >= interval) {
+                    client.ws.ping();
+                }
+            });
+        });
+    }
+
+    async start(): Promise<void> {
         const config = this.config;
         if (typeof config.maxPayload !== 'number') {
             config.maxPayload = 16 * 1024;
         }
+        const federationToken = config.federation && (config.federation.token || config.token);
+        if (config.federation && !federationToken) {
+            throw new Error(`federation requires federation.token or token, servers in the federation authenticate with it`);
+        }
+        if (config.federation && config.locks) {
+            throw new Error(`locks can't be used with federation, locks are not shared between servers`);
+        }
+
+        this.tls = config.ssl ? new AceBaseIPCTLSProxy(config.ssl, this.logger) : undefined;
+        this.stopping = false;
+
+        if (config.outbox) {
+            this.outboxes = new AceBaseIPCOutboxes(config.outbox, (dbname, from, to) => {
+                const sender = this.getClients(dbname).find(client => client.id === from);
+                if (sender) {
+                    return sender.sendMessage(`undeliverable:${to}`);
+                }
+                // Sender may be connected to another server in the federation
+                const server = this.federation?.getServers(dbname, from)[0];
+                server && this.federation?.send(server, dbname, to, from, `undeliverable:${to}`);
+            });
+            this.outboxes.start();
+        }
+
+        if (config.recorder) {
+            this.recorder = new AceBaseIPCRecorder(config.recorder, this.logger);
+        }
+
+        this.rateLimits = new AceBaseIPCRateLimits(config.rateLimit || {});
+        this.rateLimits.start();
+
+        if (config.locks) {
+            const notify = (dbname: string, clientId: string, msg: string) => {
+                const client = this.getClients(dbname).find(client => client.id === clientId);
+                client?.sendMessage(msg);
+            };
+            this.locks = new AceBaseIPCLockManager(config.locks, {
+                granted: (dbname, lock) => notify(dbname, lock.clientId, `locked:${lock.id}`),
+                refused: (dbname, lock, reason) => {
+                    this.logger.debug(`Refused lock request: ${reason}`, { dbname, clientId: lock.clientId, path: lock.path });
+                    notify(dbname, lock.clientId, `lockerr:${lock.id};${reason}`);
+                },
+                expired: (dbname, lock) => {
+                    this.logger.warn(`Lock expired, releasing it`, { dbname, clientId: lock.clientId, path: lock.path });
+                    notify(dbname, lock.clientId, `lockexpired:${lock.id}`);
+                },
+            });
+            this.locks.start();
+        }
+
+        const idleTimeout = typeof config.idleTimeout === 'number' ? config.idleTimeout : 60e3;
+        if (idleTimeout > 0) {
+            const interval = Math.min(Math.floor(idleTimeout / 3), 10e3);
+            this.heartbeat = setInterval(() => this.checkHeartbeats(idleTimeout, interval), interval);
+        }
 
+        // Clients connect over the network, and/or transports provided by the embedder (eg in-process clients)
+        this.transports = (config.transports || []).slice();
+        let network: AceBaseIPCTransport | undefined;
+        if (config.listen !== false) {
+            // Loaded on demand, so servers that don't listen on the network don't need uWebSockets.js
+            const { AceBaseIPCUWSTransport } = require('./uws') as typeof import('./uws');
+            this.network = new AceBaseIPCUWSTransport();
+            // With SSL, the app listens on a local port behind the TLS proxy, and only accepts requests forwarded by it
+            network = this.tls ? this.tls.guard(this.network) : this.network;
+            this.transports.push(network);
+        }
+        this.transports.forEach(transport => this.addRoutes(transport, transport === network));
+        if (config.federation) {
+            this.startFederation(this.transports, config.federation, federationToken as string);
+        }
+        this.started = true;
+        this.network && await this.listen(this.network);
+    }
+
+    /**
+     * Starts listening for network connections
+     */
+    private async listen(network: AceBaseIPCUWSTransport) {
+        const config = this.config;
+        const address = config.path ? `unix socket ${config.path}` : config.host ? `${config.host}:${config.port}` : `port ${config.port}`;
+        let listening = false;
+        try {
+            if (this.tls) {
+                // With SSL, the app listens on a local port behind a TLS proxy
+                const internalPort = await getFreePort();
+                listening = await network.listen({ host: '127.0.0.1', port: internalPort });
+                listening && await this.tls.start({ host: config.host, port: config.port as number, path: config.path }, internalPort);
+            }
+            else {
+                listening = await network.listen({ host: config.host, port: config.port as number, path: config.path });
+            }
+        }
+        catch (err) {
+            this.logger.error(`Failed to start listening`, { error: err });
+            network.close();
+            listening = false;
+        }
+        if (!listening) {
+            const message = `AceBase IPC server failed to listen on ${address}`;
+            this.logger.error(message);
+            throw new Error(message);
+        }
+        this.logger.info(`AceBase IPC server running on ${address}`);
+    }
+
+    /**
+     * Adds the client routes to a transport: websocket connections, large message uploads and downloads, peer lists, 
+     * monitoring and the admin API
+     * @param isNetwork whether clients connect with the transport over the network. Remote addresses with too many failed
+     * connection attempts are only blocked then, other transports report the same address for all their clients
+     */
+    private addRoutes(transport: AceBaseIPCTransport, isNetwork: boolean) {
+        const config = this.config;
         const textDecoder = new TextDecoder();
-        const app = config.ssl
-            ? uWS.SSLApp({
-                cert_file_name: config.ssl.certPath,
-                key_file_name: config.ssl.keyPath,
-                dh_params_file_name: config.ssl.pfxPath,
-                passphrase: config.ssl.passphrase
-            })
-            : uWS.App();
-
-        app.ws(`/:dbname/connect`, {
-            idleTimeout: 0, // No timeout
-            maxBackpressure: 1024 * 1024,           // default
-            maxPayloadLength: config.maxPayload,    // default (16 * 1024), connection is closed when payload exceeds this
-            compression: uWS.DISABLED,              // default            
+        const websocket = config.websocket || {};
+
+        transport.ws<AceBaseIPCConnectionData>(`/:dbname/connect`, {
+            idleTimeout: websocket.idleTimeout || 0,            // Idle clients are detected with our own heartbeat by default
+            maxBackpressure: websocket.maxBackpressure || 0,    // Unlimited by default, back pressure is handled by our own policy
+            maxPayloadLength: config.maxPayload,                // default (16 * 1024), connection is closed when payload exceeds this
+            compression: websocket.compression || 'disabled',
             upgrade: (res, req, context) => {
                 // Execute the upgrade manually to add url and query
                 const dbname = req.getParameter(0);
@@ -100,62 +1150,124 @@ export class AceBaseIPCServer {
 
                 // Parse query, should be in the form 'id=clientid&v=1'
                 const env = parseQuery(query as string);
+                const address = this.getRemoteAddress(res, req);
                 
                 // Check client environment
                 let err;
-                if (typeof env.v !== 'string' || env.v.split('.')[0] !== '1') {
-                    // Using semantic versioning, major version update means and update is needed, minor version bump indicates backward compatible features were added, build nr bump means bugfix.
-                    // This server version allows version 1.x.x
-                    err = `409 Unsupported client IPC version "${env.v}". Update acebase-ipc-server package`;
+                const negotiated = typeof env.v === 'string' ? negotiateVersion(env.v, env.vmin) : { error: `Client did not send its IPC protocol version` };
+                if (isNetwork && this.rateLimits.isBlocked(address)) {
+                    err = `429 Too many failed connection attempts`;
+                }
+                else if (this.stopping) {
+                    err = `503 Server is shutting down`;
+                }
+                else if (this.databaseStates[dbname]) {
+                    err = `503 Database "${dbname}" is ${this.databaseStates[dbname]}`;
+                }
+                else if ('error' in negotiated) {
+                    err = `409 ${negotiated.error}`;
                 }
                 else if (typeof env.id !== 'string' || env.id.length < 5) {
                     err = `500 Invalid IPC client id ${env.id}`;
                 }
-                else if (typeof config.token === 'string' && env.t !== config.token) {
-                    err = `403 Unauthorized`;
+                else if (typeof env.role !== 'undefined' && !['master', 'worker'].includes(env.role)) {
+                    err = `500 Invalid IPC client role ${env.role}`;
                 }
                 if (err) {
-                    console.error(err);
+                    // Don't flood the log with attempts of blocked addresses
+                    this.logger[err.startsWith('429') ? 'debug' : 'warn'](`Refused websocket connection: ${err}`, { dbname, clientId: env.id, address });
+                    this.metrics.rejectedUpgrade(+err.slice(0, 3));
                     res.writeStatus(err);
                     return res.end(err);
                 }
 
-                const clients = this.getClients(dbname);
-                const existingClient = clients.find(client => client.id === env.id);
-                if (existingClient) {
-                    // New client is connecting with an already known id.  Did we not get notified about a previous disconnect? 
-                    // Close it now, it'll be replaced by the new connection
-                    console.warn(`Client ${env.id} is connecting, but a previous connection appears to be open. Closing previous connection now.`)
-                    existingClient.ws.close();
-                }
+                // Read all required headers now, req is not available after the async authentication
+                const headers = {
+                    authorization: req.getHeader('authorization'),
+                    key: req.getHeader('sec-websocket-key'),
+                    protocol: req.getHeader('sec-websocket-protocol'),
+                    extensions: req.getHeader('sec-websocket-extensions'),
+                };
+                let aborted = false;
+                res.onAborted(() => { aborted = true; });
 
-                res.upgrade({
-                        url,
-                        query,
-                        env,
-                        dbname
-                    },
-                    /* Spell these correctly */
-                    req.getHeader('sec-websocket-key'),
-                    req.getHeader('sec-websocket-protocol'),
-                    req.getHeader('sec-websocket-extensions'),
-                    context
-                );
+                const credentials: AceBaseIPCCredentials = { token: getToken(headers.authorization, env.t), role: env.role || 'worker' };
+                this.authenticate(dbname, env.id, credentials).then(authenticated => {
+                    if (aborted) { return; }
+                    let err;
+                    if (!authenticated) {
+                        err = `403 Unauthorized`;
+                        if (isNetwork && this.rateLimits.failed(address)) {
+                            this.logger.warn(`Too many failed connection attempts, blocking remote address`, { dbname, clientId: env.id, address });
+                        }
+                    }
+                    else if (this.stopping) {
+                        err = `503 Server is shutting down`;
+                    }
+                    else if (this.databaseStates[dbname]) {
+                        err = `503 Database "${dbname}" is ${this.databaseStates[dbname]}`;
+                    }
+                    else if (env.role === 'master') {
+                        const master = this.getMaster(dbname);
+                        if (master && master.id !== env.id) {
+                            err = `409 Database "${dbname}" already has a master (${master.id})`;
+                        }
+                    }
+                    if (err) {
+                        this.logger.warn(`Refused websocket connection: ${err}`, { dbname, clientId: env.id });
+                        this.metrics.rejectedUpgrade(+err.slice(0, 3));
+                        res.writeStatus(err);
+                        return res.end(err);
+                    }
+
+                    const clients = this.getClients(dbname);
+                    const existingClient = clients.find(client => client.id === env.id);
+                    if (existingClient) {
+                        // New client is connecting with an already known id.  Did we not get notified about a previous disconnect? 
+                        // Close it now, it'll be replaced by the new connection
+                        this.logger.warn(`Client is connecting, but a previous connection appears to be open. Closing previous connection now.`, { dbname, clientId: env.id });
+                        existingClient.ws.replaced = true; // Prevents master election upon close
+                        existingClient.ws.close();
+                    }
+
+                    res.upgrade({
+                            url,
+                            query,
+                            env,
+                            dbname,
+                            address,
+                            transport,
+                            version: 'version' in negotiated ? negotiated.version : '',
+                            capabilities: this.getCapabilities(parseCapabilities(env.cap), env.bin === '1')
+                        },
+                        /* Spell these correctly */
+                        headers.key,
+                        headers.protocol,
+                        headers.extensions,
+                        context
+                    );
+                });
             },
             open: (ws) => {
                 // Add new client
-                const client:AceBaseIPCClient = {
+                const client:AceBaseIPCPeer = {
                     connected: new Date(),
                     id: ws.env.id,
                     dbname: ws.dbname,
+                    role: ws.env.role,
+                    binary: ws.capabilities.includes('binary'),
+                    lastSeen: Date.now(),
+                    address: ws.address,
+                    version: ws.version,
+                    capabilities: ws.capabilities,
+                    stats: { received: 0, sent: 0, bytesReceived: 0, bytesSent: 0 },
+                    subscriptions: [],
                     ws,
-                    async sendMessage(msg: any) {
-                        const data = typeof msg === 'string' ? msg : `msg:${JSON.stringify(msg)}`;
-                        const success = this.ws.send(data, false, false);
-                        if (!success) {
-                            console.warn(`Back pressure on client ${this.id} is building up`);
-                        }
-                    }
+                    queue: [],
+                    queueSize: 0,
+                    slowNotified: [],
+                    throttled: false,
+                    sendMessage: (msg: any, sender?: AceBaseIPCPeer) => this.send(client, msg, sender),
                 };
                 
                 // Subscribe clients to each others broadcast channels called "from[id]"
@@ -168,17 +1280,42 @@ export class AceBaseIPCServer {
                     client.ws.subscribe(`from-${ws.dbname}-${ws.env.id}`);
                 });
 
+                // Did this client reconnect within the grace period?
+                const key = `${client.dbname}/${client.id}`;
+                const previous = this.disconnecting[key];
+                if (previous) {
+                    clearTimeout(previous.timeout);
+                    delete this.disconnecting[key];
+                    if (previous.client.role === 'master' && client.role !== 'master' && !this.getMaster(client.dbname)) {
+                        // Keep the master role it was elected for
+                        client.role = 'master';
+                    }
+                }
+
                 // Add new client
                 clients.push(client);
                 
                 // Send welcome message with configuration
-                ws.send(`welcome:` + JSON.stringify({ maxPayload: config.maxPayload }));
+                const master = this.getMaster(client.dbname);
+                ws.send(`welcome:` + JSON.stringify({ 
+                    maxPayload: config.maxPayload, 
+                    master: master ? master.id : null, 
+                    binary: client.binary, 
+                    version: client.version, 
+                    capabilities: client.capabilities 
+                }));
+
+                // Publish (re)connect event to other clients of the same database
+                const event = previous ? `reconnect:${client.id}` : `connect:${client.id}`;
+                this.publish(`presence-${client.dbname}`, event + (master ? `;master:${master.id}` : ''));
+                this.federation?.announce(previous ? 'reconnect' : 'connect', client);
 
-                // Publish connect event to other clients
-                app.publish('all', `connect:${client.id}`, false, false);
+                // subscribe websocket to broadcasted presence events for this database (connect & disconnect)
+                ws.subscribe(`presence-${client.dbname}`);
 
-                // subscribe websocket to broadcasted events meant for all (connect & disconnect)
-                ws.subscribe('all');
+                // Deliver messages sent to this client while it was disconnected
+                this.outboxes?.take(client.dbname, client.id).forEach(msg => client.sendMessage(msg));
+                this.notify('connect', getClientInfo(client));
             },
             close: (ws, code, message) => {
                 // Remove client 
@@ -187,51 +1324,308 @@ export class AceBaseIPCServer {
                 if (index >= 0) {
                     const client = clients[index];
                     index >= 0 && clients.splice(index, 1);
-                    app.publish('all', `disconnect:${client.id}`, false, false);
+
+                    if (!this.stopping && !ws.kicked) {
+                        // Keep directed messages for this client for a while, in case it reconnects
+                        this.outboxes?.open(client.dbname, client.id);
+                    }
+
+                    // Cancel its waiting lock requests, held locks are kept until the reconnect grace period ends
+                    ws.replaced || this.locks?.release(client.dbname, client.id, false);
+
+                    const gracePeriod = config.reconnectGracePeriod || 0;
+                    if (gracePeriod <= 0 || this.stopping || ws.kicked) {
+                        return this.handleDisconnect(client, !ws.replaced);
+                    }
+
+                    // Wait for the client to reconnect before notifying others
+                    const key = `${client.dbname}/${client.id}`;
+                    this.disconnecting[key] = {
+                        client,
+                        timeout: setTimeout(() => {
+                            delete this.disconnecting[key];
+                            this.handleDisconnect(client, true);
+                        }, gracePeriod)
+                    };
                 }
             },
+            drain: (ws) => {
+                const client = this.getClients(ws.dbname).find(client => client.ws === ws);
+                client && this.flush(client);
+            },
+            pong: (ws) => {
+                const client = this.getClients(ws.dbname).find(client => client.ws === ws);
+                if (client) { client.lastSeen = Date.now(); }
+            },
             message: (ws, buffer, isBinary) => {
-                if (isBinary) { return; } // Ignore
                 const client = this.getClients(ws.dbname).find(client => client.ws === ws);
+                if (client) {
+                    client.lastSeen = Date.now();
+                    client.stats.received++;
+                    client.stats.bytesReceived += buffer.byteLength;
+                }
+                if (isBinary) {
+                    if (!client?.binary) { return; } // Ignore, client did not negotiate binary mode
+                    if (this.isThrottled(client, buffer.byteLength)) { return; }
+                    return this.handleBinaryMessage(buffer, ws);
+                }
                 try {
                     const str = textDecoder.decode(buffer);
-                    console.log(`Received websocket message from ${client?.id} on db "${ws.dbname}": "${str}"`);
+                    this.logger.debug(`Received websocket message`, { dbname: ws.dbname, clientId: client?.id, kind: getMessageKind(str), payload: str });
+                    if (client && str !== 'ping' && this.isThrottled(client, buffer.byteLength)) { return; }
                     this.handleIncomingMessage(str, ws);
                 }
                 catch(err) {
-                    console.error(`Error parsing received websocket message:`, err);
+                    this.reportError(`Error parsing received websocket message`, err, { dbname: ws.dbname, clientId: client?.id });
                 }
             },
         });
 
-        app.get(`/:dbname/clients`, (res, req) => {
+        if (config.adminToken) {
+            this.addAdminRoutes(transport, config.adminToken);
+        }
+        transport.get(`/:dbname/clients`, (res, req) => {
             const dbname = req.getParameter(0);
-            const clients = this.getClients(dbname);
-            const txt = JSON.stringify(clients.map(client => ({ id: client.id, connected: client.connected.getTime() })));
-            res.end(txt);
+            const query = parseQuery(req.getQuery());
+            const credentials: AceBaseIPCCredentials = { token: getToken(req.getHeader('authorization'), query.t) };
+            let aborted = false;
+            res.onAborted(() => { aborted = true; });
+
+            this.authenticate(dbname, undefined, credentials).then(authenticated => {
+                if (aborted) { return; }
+                if (!authenticated) {
+                    res.writeStatus('401 Unauthorized');
+                    return res.end('Unauthorized');
+                }
+                const clients = this.getClients(dbname).map(client => ({ id: client.id, role: client.role, version: client.version, connected: client.connected.getTime() }) as { id: string, role?: AceBaseIPCClientRole, version?: string, connected: number, server?: string });
+                const remote = this.federation?.getClients(dbname).map(peer => ({ id: peer.id, role: peer.role, connected: peer.connected, server: peer.server })) || [];
+                const txt = JSON.stringify(clients.concat(remote));
+                res.end(txt);
+            });
         });
 
-        app.post(`/:dbname/send`, (res, req) => {
+        transport.get(`/:dbname/subscriptions`, (res, req) => {
+            const dbname = req.getParameter(0);
+            const query = parseQuery(req.getQuery());
+            const credentials: AceBaseIPCCredentials = { token: getToken(req.getHeader('authorization'), query.t) };
+            let aborted = false;
+            res.onAborted(() => { aborted = true; });
+
+            this.authenticate(dbname, undefined, credentials).then(authenticated => {
+                if (aborted) { return; }
+                if (!authenticated) {
+                    res.writeStatus('401 Unauthorized');
+                    return res.end('Unauthorized');
+                }
+                const subscriptions = this.getClients(dbname).reduce((all, client) => {
+                    all[client.id] = client.subscriptions;
+                    return all;
+                }, {} as { [clientId: string]: string[] });
+                res.end(JSON.stringify(subscriptions));
+            });
+        });
+
+        transport.get(`/databases`, (res, req) => {
+            const query = parseQuery(req.getQuery());
+            const credentials: AceBaseIPCCredentials = { token: getToken(req.getHeader('authorization'), query.t) };
+            let aborted = false;
+            res.onAborted(() => { aborted = true; });
+
+            this.authenticate('*', undefined, credentials).then(authenticated => {
+                if (aborted) { return; }
+                if (!authenticated) {
+                    res.writeStatus('401 Unauthorized');
+                    return res.end('Unauthorized');
+                }
+                const databases = Object.keys(this.clients)
+                    .filter(dbname => this.clients[dbname].length > 0)
+                    .map(dbname => ({ dbname, clients: this.clients[dbname].length }));
+                res.end(JSON.stringify(databases));
+            });
+        });
+
+        transport.get(`/health`, (res) => {
+            const ready = this.ready;
+            ready || res.writeStatus('503 Service Unavailable');
+            res.writeHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify({ live: true, ready }));
+        });
+
+        transport.get(`/metrics`, (res, req) => {
+            const query = parseQuery(req.getQuery());
+            const credentials: AceBaseIPCCredentials = { token: getToken(req.getHeader('authorization'), query.t) };
+            let aborted = false;
+            res.onAborted(() => { aborted = true; });
+
+            this.authenticate('*', undefined, credentials).then(authenticated => {
+                if (aborted) { return; }
+                if (!authenticated) {
+                    res.writeStatus('401 Unauthorized');
+                    return res.end('Unauthorized');
+                }
+                const databases = Object.keys(this.clients)
+                    .filter(dbname => this.clients[dbname].length > 0)
+                    .map(dbname => ({ dbname, clients: this.clients[dbname].length, master: !!this.getMaster(dbname) }));
+                const txt = this.metrics.render({
+                    databases,
+                    largeMessages: { count: this.largeMessages.count, bytes: this.largeMessages.size },
+                    ready: this.ready
+                });
+                res.writeHeader('Content-Type', 'text/plain; version=0.0.4');
+                res.end(txt);
+            });
+        });
+
+        transport.post(`/:dbname/send`, (res, req) => {
             // Client sending large message
-            // example POST /mydb/receive?id=client1&token=secret (with message in data)
+            // example POST /mydb/send?id=client1&t=secret (with message in data)
 
             const query = parseQuery(req.getQuery());
             const dbname = req.getParameter(0);
             const clients = this.getClients(dbname);
             const client = clients.find(client => client.id === query.id);
-
-            if (!client || (typeof config.token === 'string' && query.t !== config.token)) {
+            if (!client) {
                 res.writeStatus('401 Unauthorized');
                 return res.end('Unauthorized');
             }
+            const maxBodySize = config.maxBodySize ?? 100 * 1024 * 1024;
+            if (+req.getHeader('content-length') > maxBodySize) {
+                res.writeStatus('413 Payload Too Large');
+                return res.end('Payload Too Large');
+            }
+            const credentials: AceBaseIPCCredentials = { token: getToken(req.getHeader('authorization'), query.t), role: client.role };
+            const binary = req.getHeader('content-type') === 'application/octet-stream';
+            const gunzip = req.getHeader('content-encoding') === 'gzip' ? zlib.createGunzip() : undefined;
+            let aborted = false, writer: LargeMessageWriter | undefined;
+            res.onAborted(() => { aborted = true; writer?.abort(); gunzip?.destroy(); });
 
-            let data = '';
-            res.onData((chunk, isLast) => {
-                data += textDecoder.decode(chunk);
-                if (isLast) {
+            // Start receiving data right away, it is buffered until the client has been authenticated and it exceeds maxPayload.
+            // The remainder is streamed into the large message store
+            let size = 0, received = 0, decompressed = 0, header = Buffer.alloc(0), msgId = '', refused = false, allowed = false, paused = false;
+            const chunks: Buffer[] = [];
+            const refuse = (status: string, message: string) => {
+                refused = true;
+                writer?.abort();
+                gunzip?.destroy();
+                res.writeStatus(status);
+                res.end(message);
+            };
+            /**
+             * Moves the buffered data into the large message store once it is too large to forward over websocket connections
+             * @returns whether the data was stored, the upload has been refused if not
+             */
+            const store = () => {
+                if (writer || !allowed || size <= (config.maxPayload as number)) { return true; }
+                const data = Buffer.concat(chunks);
+                chunks.length = 0;
+                if (binary && !isClientFrame(data)) {
+                    refuse('400 Bad Request', 'Invalid binary frame');
+                    return false;
+                }
+                const headerLength = binary ? readBinaryHeader(data)?.length ?? 0 : getHeaderLength(data);
+                header = data.slice(0, headerLength);
+                msgId = generateID();
+                writer = this.largeMessages.createWriter(msgId);
+                if (!writer.write(data.slice(headerLength))) {
+                    refuse('413 Payload Too Large', 'Payload Too Large');
+                    return false;
+                }
+                return true;
+            };
+            /** Pauses the upload while the large message store flushes its buffered data, so slow storage doesn't fill the memory */
+            const throttle = () => {
+                if (!writer?.needsDrain || paused) { return; }
+                paused = true;
+                res.pause?.();
+                gunzip?.pause();
+                writer.drained().then(() => {
+                    paused = false;
+                    if (aborted || refused) { return; }
+                    res.resume?.();
+                    gunzip?.resume();
+                });
+            };
+            const authenticated = this.authenticate(dbname, client.id, credentials).then(authenticated => {
+                if (aborted || refused) { return; }
+                if (!authenticated) {
+                    return refuse('401 Unauthorized', '401 Unauthorized');
+                }
+                allowed = true;
+                store() && throttle();
+            });
+            const handleData = (buffer: Buffer, isLast: boolean) => {
+                if (aborted || refused) { return; }
+                decompressed += buffer.length;
+                if (decompressed > maxBodySize) {
+                    // Compressed uploads must not inflate beyond the body size limit either
+                    return refuse('413 Payload Too Large', 'Payload Too Large');
+                }
+                if (writer) {
+                    if (!writer.write(buffer)) {
+                        return refuse('413 Payload Too Large', 'Payload Too Large');
+                    }
+                }
+                else {
+                    chunks.push(buffer);
+                    size += buffer.length;
+                    if (!store()) { return; }
+                }
+                if (!isLast) { return throttle(); }
+                authenticated.then(() => {
+                    if (aborted || refused) { return; }
+                    let err;
+                    if (this.stopping) {
+                        err = '503 Service Unavailable';
+                    }
+                    else if (binary && !writer && !isClientFrame(Buffer.concat(chunks))) {
+                        err = '400 Bad Request';
+                    }
+                    else if (this.isThrottled(client, decompressed)) {
+                        err = '429 Too Many Requests';
+                    }
+                    if (err) {
+                        writer?.abort();
+                        res.writeStatus(err);
+                        return res.end(err);
+                    }
                     res.end('ok');
-                    this.handleIncomingMessage(data, client.ws);
+                    client.lastSeen = Date.now();
+                    client.stats.received++;
+                    client.stats.bytesReceived += received;
+                    if (writer) {
+                        writer.end().then(() => {
+                            this.notify('largeMessage', { client: getClientInfo(client), id: msgId, size: this.largeMessages.getSize(msgId), binary });
+                            binary 
+                                ? this.handleBinaryMessage(header, client.ws, msgId)
+                                : this.handleIncomingMessage(header.toString('utf8'), client.ws, msgId);
+                        })
+                        .catch(err => this.reportError(`Error handling large message`, err, { dbname, clientId: client.id }));
+                    }
+                    else {
+                        const data = Buffer.concat(chunks);
+                        binary 
+                            ? this.handleBinaryMessage(data, client.ws) 
+                            : this.handleIncomingMessage(data.toString('utf8'), client.ws);
+                    }
+                });
+            };
+            if (gunzip) {
+                gunzip.on('data', (buffer: Buffer) => handleData(buffer, false));
+                gunzip.on('end', () => handleData(Buffer.alloc(0), true));
+                gunzip.on('error', () => {
+                    if (aborted || refused) { return; }
+                    refuse('400 Bad Request', 'Invalid gzip data');
+                });
+            }
+            res.onData((chunk, isLast) => {
+                if (aborted || refused) { return; }
+                const buffer = Buffer.from(chunk.slice(0)); // chunk can't be used after this callback returns, copy it
+                received += buffer.length;
+                if (received > maxBodySize) {
+                    return refuse('413 Payload Too Large', 'Payload Too Large');
                 }
+                if (!gunzip) { return handleData(buffer, isLast); }
+                isLast ? gunzip.end(buffer) : gunzip.write(buffer);
             });
         });
 
@@ -239,7 +1633,7 @@ export class AceBaseIPCServer {
          * FOR TESTING PURPOSES ONLY, DISABLED IN PRODUCTION ENVIRONMENT
          * GET /mydb/send?id=client1&token=secret&msg=to:client1;Hallo
          */
-        app.get(`/:dbname/send`, (res, req) => {
+        transport.get(`/:dbname/send`, (res, req) => {
             if (process.env?.NODE_ENV !== 'development') {
                 res.writeStatus('405 Method Not Allowed');
                 return res.end('405 Method Not Allowed');
@@ -248,108 +1642,638 @@ export class AceBaseIPCServer {
             const dbname = req.getParameter(0);
             const clients = this.getClients(dbname);
             const client = clients.find(client => client.id === query.id);
+            const credentials: AceBaseIPCCredentials = { token: getToken(req.getHeader('authorization'), query.t), role: client?.role };
+            let aborted = false;
+            res.onAborted(() => { aborted = true; });
 
-            if (!client || (typeof config.token === 'string' && query.t !== config.token)) {
-                res.writeStatus('401 Unauthorized');
-                return res.end('Unauthorized');
-            }
-
-            this.handleIncomingMessage(query.msg, client.ws);
+            (client ? this.authenticate(dbname, client.id, credentials) : Promise.resolve(false)).then(authenticated => {
+                if (aborted) { return; }
+                if (!client || !authenticated) {
+                    res.writeStatus('401 Unauthorized');
+                    return res.end('Unauthorized');
+                }
+                res.end('ok');
+                this.handleIncomingMessage(query.msg, client.ws);
+            });
         });
 
-        app.get(`/:dbname/receive`, (res, req) => {
+        transport.get(`/:dbname/receive`, (res, req) => {
             // Client wants to download a large message
-            // example GET /mydb/receive?id=client1&msg=12345&token=secret
+            // example GET /mydb/receive?id=client1&msg=12345&t=secret
 
             const query = parseQuery(req.getQuery());
             const dbname = req.getParameter(0);
             const clients = this.getClients(dbname);
             const client = clients.find(client => client.id === query.id);
+            const credentials: AceBaseIPCCredentials = { token: getToken(req.getHeader('authorization'), query.t), role: client?.role };
+            const gzip = this.config.gzip === true && /\bgzip\b/.test(req.getHeader('accept-encoding'));
+            let aborted = false, stream: Readable | null = null;
+            res.onAborted(() => { aborted = true; stream?.destroy(); });
 
-            if (!client || (typeof config.token === 'string' && query.t !== config.token)) {
-                res.writeStatus('401 Unauthorized');
-                return res.end('Unauthorized');
-            }
-            const msg = this.largeMessages[query.msg];
-            if (typeof msg !== 'string') {
-                res.writeStatus('404 Not Found');
-                res.end('Not Found');
-            }
-            else {
-                delete this.largeMessages[query.msg];
-                res.end(msg);
+            (client ? this.authenticate(dbname, client.id, credentials) : Promise.resolve(false)).then(async authenticated => {
+                if (aborted) { return; }
+                if (!client || !authenticated) {
+                    res.writeStatus('401 Unauthorized');
+                    return res.end('Unauthorized');
+                }
+                const size = this.largeMessages.getSize(query.msg);
+                stream = await this.largeMessages.createReadStream(query.msg, client.id);
+                if (aborted) {
+                    return stream?.destroy();
+                }
+                if (!stream) {
+                    res.writeStatus('404 Not Found');
+                    return res.end('Not Found');
+                }
+                if (!gzip) {
+                    return streamResponse(res, stream, size, this.logger);
+                }
+                // Compressed size is unknown upfront, stream it chunked. Destroying the gzip stream also destroys the source
+                const source = stream;
+                stream = pipeline(source, zlib.createGzip(), () => { /* Errors are handled by streamChunkedResponse */ });
+                res.writeHeader('Content-Encoding', 'gzip');
+                streamChunkedResponse(res, stream, this.logger);
+            });
+        });
+    }
+
+    /**
+     * Stops the server gracefully: no new connections are accepted, all connected clients are notified with a 
+     * `"shutdown:"` message, pending large messages are given time to be downloaded, after which all connections
+     * and the listen socket are closed.
+     * @param options.drainTimeoutMs maximum time in ms to wait for pending large messages to be downloaded. Default is 5000
+     */
+    async stop(options: { drainTimeoutMs?: number } = {}): Promise<void> {
+        if (!this.started || this.stopping) { return; }
+        this.stopping = true;
+        const drainTimeoutMs = typeof options.drainTimeoutMs === 'number' ? options.drainTimeoutMs : 5000;
+
+        // Notify all clients
+        const allClients = () => Object.keys(this.clients).reduce((all, dbname) => all.concat(this.clients[dbname]), [] as AceBaseIPCPeer[]);
+        allClients().forEach(client => {
+            client.ws.send('shutdown:', false, false);
+        });
+        this.federation?.stop();
+        this.federation = undefined;
+
+        // Wait for pending large messages to be downloaded
+        const timeout = Date.now() + drainTimeoutMs;
+        while (this.largeMessages.count > 0 && Date.now() < timeout) {
+            await new Promise(resolve => setTimeout(resolve, 100));
+        }
+        this.largeMessages.close();
+        this.outboxes?.stop();
+        this.outboxes = undefined;
+        this.rateLimits.stop();
+        this.locks?.stop();
+        this.locks = undefined;
+        this.recorder?.close();
+        this.recorder = undefined;
+        this.heartbeat && clearInterval(this.heartbeat);
+        this.heartbeat = undefined;
+        Object.keys(this.disconnecting).forEach(key => clearTimeout(this.disconnecting[key].timeout));
+        this.disconnecting = {};
+        Object.keys(this.pendingRequests).forEach(sid => clearTimeout(this.pendingRequests[sid].timeout));
+        this.pendingRequests = {};
+
+        // Close all connections
+        allClients().forEach(client => {
+            client.ws.close();
+        });
+        this.clients = {};
+
+        // Close listen socket and other transports
+        this.transports.forEach(transport => transport.close?.());
+        this.transports = [];
+        this.network = undefined;
+        this.tls?.stop();
+        this.tls = undefined;
+        this.started = false;
+        this.logger.info(`AceBase IPC server stopped`);
+    }
+
+    largeMessages: AceBaseIPCLargeMessageStore = createLargeMessageStore(this.config.largeMessages, this.logger);
+    readonly metrics = new AceBaseIPCMetrics();
+    private pendingRequests: { [id:string]: PendingRequest } = {};
+
+    /**
+     * Prepares a message payload for forwarding to its recipients. Payloads that are too large to send over a websocket
+     * connection are put in the large message store, and replaced with a download instruction: `"get:[msgId]"`
+     * @param payload message to forward
+     * @param recipients ids of the clients the message will be forwarded to
+     * @param largeMessageId id of the message in the large message store if it was streamed into it already, `payload` is ignored
+     * @param servers ids of servers in the federation the message will be forwarded to, they read a streamed message from the store
+     * @returns the payload to forward, or `null` if the message could not be stored
+     */
+    private preparePayload(payload: string, recipients: string[], largeMessageId?: string, servers: string[] = []) {
+        if (largeMessageId) {
+            this.largeMessages.publish(largeMessageId, recipients.concat(servers.map(server => `~${server}`)));
+            return `get:${largeMessageId}`;
+        }
+        if (payload.length <= (this.config.maxPayload as number)) {
+            return payload;
+        }
+        const id = generateID();
+        if (!this.largeMessages.add(id, payload, recipients)) {
+            this.logger.warn(`Large message store is full, message is not forwarded`, { recipients: recipients.length });
+            return null;
+        }
+        return `get:${id}`;
+    }
+
+    /**
+     * Records a routed frame, if the recorder is enabled
+     * @param payload routed payload, without routing prefix
+     * @param largeMessageId if the payload was streamed into the large message store, its id. It is not recorded then
+     */
+    private record(frame: Omit<AceBaseIPCRecordedFrame, 'time' | 'size' | 'large' | 'payload'>, payload: string | ArrayBuffer | Uint8Array, largeMessageId?: string) {
+        if (!this.recorder) { return; }
+        const size = (typeof payload === 'string' ? Buffer.byteLength(payload) : payload.byteLength) + (largeMessageId ? this.largeMessages.getSize(largeMessageId) : 0);
+        this.recorder.record({
+            time: Date.now(),
+            ...frame,
+            size,
+            large: largeMessageId ? true : undefined,
+            payload: this.recorder.payloads && !largeMessageId 
+                ? typeof payload === 'string' ? payload : Buffer.from(payload instanceof ArrayBuffer ? new Uint8Array(payload) : payload).toString('base64') 
+                : undefined
+        });
+    }
+
+    /**
+     * Gets the capabilities to enable for a client
+     * @param requested capabilities the client supports, `null` if it did not send them
+     * @param binary whether the client requested binary mode with `bin=1`
+     */
+    private getCapabilities(requested: string[] | null, binary: boolean) {
+        const available: AceBaseIPCCapability[] = ['binary', 'requests', 'topics', 'large-messages', 'notices'];
+        this.config.outbox && available.push('outbox');
+        (this.config.reconnectGracePeriod || 0) > 0 && available.push('reconnect-grace');
+        this.config.federation && available.push('federation');
+        this.compress(Infinity) && available.push('compression');
+        this.config.locks && available.push('locks');
+        return available.filter(capability => {
+            if (capability === 'binary') { return binary || requested?.includes(capability); }
+            if (requested === null) {
+                // Client only knows the features of protocol version 1.0
+                return !['topics', 'notices'].includes(capability);
             }
-        })
+            return requested.includes(capability);
+        });
+    }
+
+    /**
+     * Gets the clients with a subscription that matches a topic
+     * @param except client to exclude, the publisher
+     */
+    private getSubscribers(dbname: string, topic: string, except?: AceBaseIPCPeer) {
+        return this.getClients(dbname).filter(client => client !== except && client.subscriptions.some(subscription => matchTopic(subscription, topic)));
+    }
+
+    /**
+     * Handles a `"sub:[topic]"` or `"unsub:[topic]"` message. Subscriptions without wildcards use transport topics, 
+     * clients with wildcard subscriptions are matched when a message is published
+     */
+    private handleSubscription(msg: string, sender: AceBaseIPCPeer) {
+        const subscribe = msg.startsWith('sub:');
+        const topic = msg.slice(subscribe ? 4 : 6);
+        if (!isValidTopic(topic, true)) {
+            return this.logger.warn(`Received invalid topic subscription`, { dbname: sender.dbname, clientId: sender.id, kind: 'subscribe', topic });
+        }
+        const index = sender.subscriptions.indexOf(topic);
+        if (subscribe && index < 0) {
+            sender.subscriptions.push(topic);
+            isWildcardTopic(topic) || sender.ws.subscribe(`topic-${sender.dbname}-${topic}`);
+        }
+        else if (!subscribe && index >= 0) {
+            sender.subscriptions.splice(index, 1);
+            isWildcardTopic(topic) || sender.ws.unsubscribe(`topic-${sender.dbname}-${topic}`);
+        }
+        this.record({ dbname: sender.dbname, from: sender.id, kind: subscribe ? 'subscribe' : 'unsubscribe', topic, recipients: [], binary: false }, '');
+    }
+
+    /**
+     * Handles a `"lock:[id];[request]"` or `"unlock:[id]"` message
+     */
+    private handleLock(msg: string, sender: AceBaseIPCPeer) {
+        if (msg.startsWith('unlock:')) {
+            this.locks?.unlock(sender.dbname, sender.id, msg.slice(7));
+            return;
+        }
+        const i = msg.indexOf(';');
+        const id = i < 0 ? msg.slice(5) : msg.slice(5, i);
+        let request: { path?: unknown, write?: unknown, tid?: unknown } | null = null;
+        try {
+            request = i > 5 ? JSON.parse(msg.slice(i + 1)) : null;
+        }
+        catch (err) {
+            // Handled below
+        }
+        if (!request || typeof request.path !== 'string' || (typeof request.tid !== 'undefined' && typeof request.tid !== 'string')) {
+            this.logger.warn(`Received invalid lock request`, { dbname: sender.dbname, clientId: sender.id });
+            return id.length > 0 && sender.sendMessage(`lockerr:${id};invalid`);
+        }
+        this.locks?.lock(sender.dbname, { id, clientId: sender.id, tid: request.tid, path: request.path, write: request.write === true });
+    }
+
+    /**
+     * Forwards a `"pub:[topic];[message]"` message to all other clients with a matching subscription
+     */
+    private handlePublish(msg: string, sender: AceBaseIPCPeer, largeMessageId?: string) {
+        const i = msg.indexOf(';');
+        const topic = msg.slice(4, i);
+        if (i < 0 || !isValidTopic(topic, false)) {
+            largeMessageId && this.largeMessages.delete(largeMessageId);
+            return this.logger.warn(`Received message for invalid topic`, { dbname: sender.dbname, clientId: sender.id, kind: 'publish' });
+        }
+        const dbname = sender.dbname, payload = msg.slice(i + 1);
+        this.metrics.received(dbname, 'publish', Buffer.byteLength(msg) + (largeMessageId ? this.largeMessages.getSize(largeMessageId) : 0));
+        const subscribers = this.getSubscribers(dbname, topic, sender);
+        const servers = this.getServers(dbname);
+        this.record({ dbname, from: sender.id, kind: 'publish', topic, recipients: subscribers.map(client => client.id), servers, binary: false }, payload, largeMessageId);
+        const forward = this.preparePayload(payload, subscribers.map(client => client.id), largeMessageId, servers);
+        if (forward === null) { return; }
+
+        // Exact subscribers receive the message through their transport topic, unless some of them are slow
+        const frame = `pub:${topic};${forward}`, size = Buffer.byteLength(frame);
+        const exact = subscribers.filter(client => client.subscriptions.includes(topic));
+        if (exact.some(client => this.isCongested(client, size))) {
+            exact.forEach(client => client.sendMessage(frame, sender));
+        }
+        else if (exact.length > 0) {
+            this.publish(`topic-${dbname}-${topic}`, frame, false, this.compress(size), sender.ws);
+            exact.forEach(client => {
+                client.stats.sent++;
+                client.stats.bytesSent += size;
+            });
+        }
+        subscribers.filter(client => !exact.includes(client)).forEach(client => client.sendMessage(frame, sender));
+        this.metrics.sent(dbname, 'publish', size, subscribers.length);
+        this.federate(servers, dbname, sender.id, null, payload, largeMessageId, topic);
+    }
 
-        app.listen(config.port, listenSocket => {
-            if (listenSocket) {
-                console.log(`AceBase IPC server running on port ${config.port}`);
-                resolve();
+    /**
+     * Forwards a `"req:[requestId];to:[peerId];[message]"` message to the target peer
+     */
+    private handleRequest(msg: string, sender: AceBaseIPCPeer, largeMessageId?: string) {
+        const match = /^req:([^;]+);to:([^;]+);/.exec(msg);
+        if (!match) {
+            return this.logger.warn(`Received invalid request message`, { dbname: sender.dbname, clientId: sender.id, kind: 'request' });
+        }
+        const [header, id, to] = match;
+        const payload = msg.slice(header.length);
+        this.metrics.received(sender.dbname, 'request', Buffer.byteLength(msg) + (largeMessageId ? this.largeMessages.getSize(largeMessageId) : 0));
+        const target = this.getClients(sender.dbname).find(client => client.id === to);
+        const sid = generateID();
+        this.record({ dbname: sender.dbname, from: sender.id, kind: 'request', to, recipients: target ? [target.id] : [], binary: false, request: sid }, payload, largeMessageId);
+        if (!target) {
+            largeMessageId && this.largeMessages.delete(largeMessageId);
+            return sender.sendMessage(`nopeer:${id}`);
+        }
+        const forward = this.preparePayload(payload, [target.id], largeMessageId);
+        if (forward === null) { return; }
+        const timeout = setTimeout(() => {
+            delete this.pendingRequests[sid];
+            sender.sendMessage(`timeout:${id}`);
+        }, typeof this.config.requestTimeout === 'number' ? this.config.requestTimeout : 30e3);
+        this.pendingRequests[sid] = { dbname: sender.dbname, from: sender.id, to, id, timeout };
+        const req = `req:${sid};${forward}`;
+        target.sendMessage(req, sender);
+        this.metrics.sent(target.dbname, 'request', Buffer.byteLength(req));
+    }
+
+    /**
+     * Forwards a `"res:[id];[message]"` reply to the client that sent the request
+     */
+    private handleResponse(msg: string, sender: AceBaseIPCPeer, largeMessageId?: string) {
+        const i = msg.indexOf(';');
+        const sid = msg.slice(4, i);
+        const request = this.pendingRequests[sid];
+        if (i < 0 || !request || request.dbname !== sender.dbname || request.to !== sender.id) {
+            largeMessageId && this.largeMessages.delete(largeMessageId);
+            return this.logger.warn(`Received reply to unknown request "${sid}"`, { dbname: sender.dbname, clientId: sender.id, kind: 'response' });
+        }
+        clearTimeout(request.timeout);
+        delete this.pendingRequests[sid];
+        this.metrics.received(sender.dbname, 'response', Buffer.byteLength(msg) + (largeMessageId ? this.largeMessages.getSize(largeMessageId) : 0));
+        const requester = this.getClients(request.dbname).find(client => client.id === request.from);
+        this.record({ dbname: sender.dbname, from: sender.id, kind: 'response', to: request.from, recipients: requester ? [requester.id] : [], binary: false, request: sid }, msg.slice(i + 1), largeMessageId);
+        if (!requester) {
+            largeMessageId && this.largeMessages.delete(largeMessageId);
+            return;
+        }
+        const forward = this.preparePayload(msg.slice(i + 1), [requester.id], largeMessageId);
+        if (forward === null) { return; }
+        const res = `res:${request.id};${forward}`;
+        requester.sendMessage(res, sender);
+        this.metrics.sent(requester.dbname, 'response', Buffer.byteLength(res));
+    }
+
+    /**
+     * Cancels all pending requests sent by or to a client that disconnected
+     */
+    private cancelRequests(client: AceBaseIPCPeer) {
+        Object.keys(this.pendingRequests).forEach(sid => {
+            const request = this.pendingRequests[sid];
+            if (request.dbname !== client.dbname) { return; }
+            if (request.from === client.id) {
+                clearTimeout(request.timeout);
+                delete this.pendingRequests[sid];
             }
-            else {
-                const message = `AceBase IPC server failed to start`;
-                console.error(message);
-                reject(new Error(message));
+            else if (request.to === client.id) {
+                clearTimeout(request.timeout);
+                delete this.pendingRequests[sid];
+                const requester = this.getClients(request.dbname).find(c => c.id === request.from);
+                requester?.sendMessage(`nopeer:${request.id}`);
             }
         });
+    }
 
-        return promise;
+    /**
+     * Passes a message received from a client through the middleware
+     * @param binary for binary frames, their payload if it was not uploaded into the large message store. They can't be rewritten
+     * @returns the (rewritten) message, or `null` if it must be dropped
+     */
+    private applyMiddleware(msg: string, sender: AceBaseIPCPeer, largeMessageId?: string, binary?: { payload?: Uint8Array }) {
+        const client = getClientInfo(sender);
+        for (const middleware of this.middleware) {
+            try {
+                const result = middleware({ client, message: msg, largeMessageId, ...(binary && { binary: true, payload: binary.payload }) });
+                if (result === false) {
+                    this.logger.debug(`Message dropped by middleware`, { dbname: sender.dbname, clientId: sender.id, kind: getMessageKind(msg), binary: !!binary });
+                    return null;
+                }
+                if (typeof result === 'string' && !binary) { msg = result; }
+            }
+            catch (err) {
+                this.reportError(`Error in message middleware, message is dropped`, err, { dbname: sender.dbname, clientId: sender.id });
+                return null;
+            }
+        }
+        return msg;
     }
 
-    largeMessages: { [id:string]: string } = {};
+    /**
+     * Checks whether a client negotiated the capability a message requires, messages of features it did not negotiate are dropped
+     * @param largeMessageId id of the message payload in the large message store, it is removed if the message is dropped
+     */
+    private isNegotiated(sender: AceBaseIPCPeer, capability: AceBaseIPCCapability, largeMessageId?: string) {
+        if (sender.capabilities.includes(capability)) { return true; }
+        this.logger.warn(`Received message that requires the ${capability} capability, which the client did not negotiate`, { dbname: sender.dbname, clientId: sender.id });
+        largeMessageId && this.largeMessages.delete(largeMessageId);
+        return false;
+    }
 
-    handleIncomingMessage(msg: string, ws: uWS.WebSocket) {
+    /**
+     * Routes a message received from a client
+     * @param msg received message
+     * @param ws websocket of the sending client
+     * @param largeMessageId if the message payload was streamed into the large message store, its id. `msg` only contains the routing prefix then
+     */
+    handleIncomingMessage(msg: string, ws: AceBaseIPCSocket<AceBaseIPCConnectionData>, largeMessageId?: string) {
         const clients = this.getClients(ws.dbname);
         let to:string = '';
-        if (msg === 'ping') {
+        if (msg === 'ping' && !largeMessageId) {
+            this.metrics.received(ws.dbname, 'ping', 4);
+            this.metrics.sent(ws.dbname, 'ping', 4);
             return ws.send('pong');
         }
+        const sender = clients.find(client => client.ws === ws);
+        if (!sender) {
+            largeMessageId && this.largeMessages.delete(largeMessageId);
+            return this.logger.warn(`Received message from unknown client`, { dbname: ws.dbname });
+        }
+        if (this.middleware.length > 0) {
+            const result = this.applyMiddleware(msg, sender, largeMessageId);
+            if (result === null) {
+                largeMessageId && this.largeMessages.delete(largeMessageId);
+                return;
+            }
+            msg = result;
+        }
+        if (this.listenerCount('message') > 0) {
+            this.notify('message', { client: getClientInfo(sender), message: msg, largeMessageId });
+        }
+        if (msg.startsWith('req:') || msg.startsWith('res:')) {
+            if (!this.isNegotiated(sender, 'requests', largeMessageId)) { return; }
+            return msg.startsWith('req:') ? this.handleRequest(msg, sender, largeMessageId) : this.handleResponse(msg, sender, largeMessageId);
+        }
+        if (msg.startsWith('pub:')) {
+            if (!this.isNegotiated(sender, 'topics', largeMessageId)) { return; }
+            return this.handlePublish(msg, sender, largeMessageId);
+        }
+        if ((msg.startsWith('sub:') || msg.startsWith('unsub:')) && !largeMessageId) {
+            if (!this.isNegotiated(sender, 'topics')) { return; }
+            return this.handleSubscription(msg, sender);
+        }
+        if ((msg.startsWith('lock:') || msg.startsWith('unlock:')) && this.locks && !largeMessageId) {
+            if (!this.isNegotiated(sender, 'locks')) { return; }
+            return this.handleLock(msg, sender);
+        }
+        this.metrics.received(ws.dbname, msg.startsWith('to:') ? 'directed' : 'broadcast', Buffer.byteLength(msg) + (largeMessageId ? this.largeMessages.getSize(largeMessageId) : 0));
         if (msg.startsWith('to:')) {
             // Message as an explicit recipient, format is "to:client1;message"
             let i = msg.indexOf(';');
             to = msg.slice(3, i);
             msg = msg.slice(i+1);
         }
-        if (msg.length > (this.config.maxPayload as number)) {
-            // Message too large to send over websocket connection
-            const id = generateID();
-            this.largeMessages[id] = msg;
-
-            // Remove message if not downloaded within 60s
-            setTimeout(() => {
-                delete this.largeMessages[id];
-            }, 60e3); 
-
-            // Adjust message to download instruction for client
-            msg = `get:${id}`;
+        if (isServerMessage(msg)) {
+            // Recipients would handle it as a message of the server, eg a lock grant or a reply
+            largeMessageId && this.largeMessages.delete(largeMessageId);
+            return this.logger.warn(`Received message that starts like a server message, it is dropped`, { dbname: ws.dbname, clientId: sender.id, kind: to ? 'directed' : 'broadcast' });
         }
         if (to.length > 0) {
             // Forward message to recipient or all others
             const forwardTo = to === 'all'
                 ? clients.filter(client => client.ws !== ws)
                 : clients.filter(client => client.id === to);
-            
+
+            // Recipient may be connected to another server in the federation
+            const servers = to === 'all' ? this.getServers(ws.dbname) : forwardTo.length === 0 ? this.getServers(ws.dbname, to).slice(0, 1) : [];
+            const queue = forwardTo.length === 0 && servers.length === 0 && to !== 'all' && this.outboxes;
+
+            // Recipient is not connected, the message will be queued if it disconnected recently
+            const recipients = queue ? [to] : forwardTo.map(client => client.id);
+            this.record({ dbname: ws.dbname, from: sender.id, kind: 'directed', to, recipients: forwardTo.map(client => client.id), servers, queued: queue ? true : undefined, binary: false }, msg, largeMessageId);
+            const payload = this.preparePayload(msg, recipients, largeMessageId, servers);
+            if (payload === null) { return; }
+
             forwardTo.forEach(client => {
-                client.sendMessage(msg);
+                client.sendMessage(payload, sender);
             });
+            this.metrics.sent(ws.dbname, 'directed', Buffer.byteLength(payload), forwardTo.length);
+            this.federate(servers, ws.dbname, sender.id, to === 'all' ? null : to, msg, largeMessageId);
+
+            if (queue && !this.outboxes?.add(ws.dbname, sender.id, to, payload)) {
+                largeMessageId && this.largeMessages.delete(largeMessageId);
+            }
         }
         else {
             // Broadcast entire message to all others
-            const client = clients.find(client => client.ws === ws);
-            if (client) {
-                ws.publish(`from-${client.dbname}-${client.id}`, msg, false, false);
+            const others = clients.filter(client => client.ws !== ws);
+            const recipients = others.map(client => client.id);
+            const servers = this.getServers(ws.dbname);
+            this.record({ dbname: ws.dbname, from: sender.id, kind: 'broadcast', recipients, servers, binary: false }, msg, largeMessageId);
+            const payload = this.preparePayload(msg, recipients, largeMessageId, servers);
+            if (payload === null) { return; }
+            const size = Buffer.byteLength(payload);
+            if (others.some(client => this.isCongested(client, size))) {
+                // Some peers are slow, send to each peer individually so the back pressure policy applies
+                others.forEach(client => client.sendMessage(payload, sender));
             }
             else {
-                console.warn(`Received message from unknown client`);
+                this.publish(`from-${sender.dbname}-${sender.id}`, payload, false, this.compress(size), ws);
+                others.forEach(client => {
+                    client.stats.sent++;
+                    client.stats.bytesSent += size;
+                });
             }
+            this.metrics.sent(ws.dbname, 'broadcast', size, recipients.length);
+            this.federate(servers, ws.dbname, sender.id, null, msg, largeMessageId);
         }
     }
+
+    /**
+     * Routes a binary frame received from a client in binary mode
+     * @param frame received frame, only valid during this call
+     * @param ws websocket of the sending client
+     * @param largeMessageId if the frame payload was streamed into the large message store, its id. `frame` only contains the header then
+     */
+    handleBinaryMessage(frame: ArrayBuffer | Uint8Array, ws: AceBaseIPCSocket<AceBaseIPCConnectionData>, largeMessageId?: string) {
+        const clients = this.getClients(ws.dbname);
+        const header = readBinaryHeader(frame);
+        const sender = clients.find(client => client.ws === ws);
+        if (!header || !sender || ![BinaryFrameType.Broadcast, BinaryFrameType.Directed].includes(header.type)) {
+            largeMessageId && this.largeMessages.delete(largeMessageId);
+            return this.logger.warn(`Received invalid binary frame`, { dbname: ws.dbname, clientId: sender?.id });
+        }
+        if (this.middleware.length > 0) {
+            const prefix = header.type === BinaryFrameType.Directed ? `to:${header.id};` : '';
+            const payload = largeMessageId ? undefined : (frame instanceof ArrayBuffer ? new Uint8Array(frame) : frame).subarray(header.length);
+            if (this.applyMiddleware(prefix, sender, largeMessageId, { payload }) === null) {
+                largeMessageId && this.largeMessages.delete(largeMessageId);
+                return;
+            }
+        }
+        const forwardTo = header.type === BinaryFrameType.Directed
+            ? clients.filter(client => client.id === header.id && client.binary)
+            : clients.filter(client => client.ws !== ws && client.binary);
+        const servers = header.type === BinaryFrameType.Directed
+            ? forwardTo.length === 0 ? this.getServers(ws.dbname, header.id).slice(0, 1) : []
+            : this.getServers(ws.dbname);
+        const queue = header.type === BinaryFrameType.Directed && forwardTo.length === 0 && servers.length === 0 && this.outboxes;
+        const type = header.type === BinaryFrameType.Directed ? 'directed' : 'broadcast';
+        this.record({
+            dbname: ws.dbname, from: sender.id, kind: type, to: type === 'directed' ? header.id : undefined, recipients: forwardTo.map(client => client.id),
+            servers, queued: queue ? true : undefined, binary: true
+        }, largeMessageId ? '' : (frame instanceof ArrayBuffer ? new Uint8Array(frame) : frame).subarray(header.length), largeMessageId);
+        this.metrics.received(ws.dbname, type, frame.byteLength + (largeMessageId ? this.largeMessages.getSize(largeMessageId) : 0));
+
+        let forward: ArrayBuffer | Uint8Array = frame;
+        if (largeMessageId) {
+            this.largeMessages.publish(largeMessageId, (queue ? [header.id] : forwardTo.map(client => client.id)).concat(servers.map(server => `~${server}`)));
+            forward = createBinaryFrame(BinaryFrameType.Download, largeMessageId);
+        }
+        forwardTo.forEach(client => {
+            client.sendMessage(forward, sender);
+        });
+        this.metrics.sent(ws.dbname, type, forward.byteLength, forwardTo.length);
+
+        // Forward to clients connected to other servers in the federation, frames are copied because they're only valid during this call
+        servers.forEach(server => {
+            const data = largeMessageId
+                ? this.readLargeMessage(largeMessageId, `~${server}`).then(data => data && Buffer.concat([createBinaryFrame(header.type, header.id), data]))
+                : Buffer.from(frame instanceof ArrayBuffer ? new Uint8Array(frame) : frame);
+            this.federation?.sendBinary(server, ws.dbname, sender.id, data);
+        });
+
+        // Recipient is not connected, queue a copy of the frame if it disconnected recently
+        if (queue && !this.outboxes?.add(ws.dbname, sender.id, header.id, forward.slice(0))) {
+            largeMessageId && this.largeMessages.delete(largeMessageId);
+        }
+    }
+}
+
+/**
+ * Gets the public details of a client
+ */
+function getClientInfo(client: AceBaseIPCPeer): AceBaseIPCClientInfo {
+    const { id, dbname, role, address, version, capabilities, connected } = client;
+    return { id, dbname, role, address, version, capabilities, connected };
+}
+
+/**
+ * Parses the comma separated capabilities a client sent with `cap`. A malformed value is treated as no capabilities
+ * @returns `null` if the client did not send them
+ */
+function parseCapabilities(value?: string) {
+    if (typeof value !== 'string') { return null; }
+    try {
+        return decodeURIComponent(value).split(',');
+    }
+    catch (err) {
+        return [];
+    }
+}
+
+/**
+ * Gets the kind of a text message for logging purposes
+ */
+function getMessageKind(msg: string) {
+    if (msg === 'ping') { return 'ping'; }
+    if (msg.startsWith('to:')) { return 'directed'; }
+    if (msg.startsWith('req:')) { return 'request'; }
+    if (msg.startsWith('res:')) { return 'response'; }
+    if (msg.startsWith('pub:')) { return 'publish'; }
+    if (msg.startsWith('sub:') || msg.startsWith('unsub:')) { return 'subscribe'; }
+    return 'broadcast';
+}
+
+/**
+ * Gets the length in bytes of the routing prefix of a message (`"to:[peerId];"`, `"req:[id];to:[peerId];"`, `"res:[id];"` or `"pub:[topic];"`)
+ * @returns 0 if the message does not have a routing prefix
+ */
+function getHeaderLength(data: Buffer) {
+    const prefix = data.slice(0, 4).toString('latin1');
+    const separators = prefix === 'req:' ? 2 : prefix === 'res:' || prefix === 'pub:' || prefix.startsWith('to:') ? 1 : 0;
+    let index = -1;
+    for (let i = 0; i < separators; i++) {
+        index = data.indexOf(0x3b, index + 1); // ";"
+        if (index < 0) { return 0; }
+    }
+    return index + 1;
+}
+
+/**
+ * Checks whether a binary frame sent by a client has a valid header, clients can only send broadcast and directed frames
+ */
+function isClientFrame(frame: ArrayBuffer | Uint8Array) {
+    const header = readBinaryHeader(frame);
+    return header !== null && [BinaryFrameType.Broadcast, BinaryFrameType.Directed].includes(header.type);
 }
 
 function parseQuery(q: string) {
     return q.split('&').reduce((init, kvp) => { let pair = kvp.split('='); init[pair[0]] = pair[1]; return init; }, {} as { [key:string]: any });
 }
 
+/**
+ * Reads the entire body of a http request
+ */
+/**
+ * Reads a request body
+ * @param maxSize maximum size in bytes, `callback` is called with `null` as soon as the body exceeds it
+ */
+function readBody(res: AceBaseIPCHttpResponse, maxSize: number, callback: (data: Buffer | null) => void) {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    res.onData((chunk, isLast) => {
+        if (size > maxSize) { return; }
+        size += chunk.byteLength;
+        if (size > maxSize) { return callback(null); }
+        chunks.push(Buffer.from(chunk.slice(0))); // chunk can't be used after this callback returns, copy it
+        isLast && callback(Buffer.concat(chunks));
+    });
+}
 
 let _idSequence = 0;
 const _maxNr = Math.pow(36, 8);
@@ -1,42 +1,118 @@
+#!/usr/bin/env node
+import fs from 'fs';
+import path from 'path';
+import tls from 'tls';
 import { AceBaseIPCServer } from "./server";
+import { AceBaseIPCConsoleLogger } from "./logger";
+import { AceBaseIPCServerSettings, applyEnvironment, ENVIRONMENT_VARIABLES, readSettingsFile, validateSettings } from "./config";
 
-// Usage: node start.js DBNAME=mydb HOST=localhost PORT=8585
-// 
-
-
-function getVariable(name: string, defaultValue?: string): string {
-    // Checks if an argument with the name was passed, or if an environment variable was set with that name
-    // If not found, the default value will be used if one if provided. An error is raised otherwise.
-    name = name.toUpperCase();
-    const arg = process.argv.find(arg => arg.toUpperCase().startsWith(`${name}=`));
-    if (arg) { return arg.split('=')[1]; }
-    if (typeof process.env[name] === 'string') { return process.env[name] as string; }
-    if (typeof defaultValue === 'undefined') { throw new Error(`No value for variable "${name}" found in environment or startup args`); }
-    return defaultValue;
-}
-
-// const dbname = getVariable('DBNAME');
-const host = getVariable('HOST', 'localhost');
-const port = +getVariable('PORT', '9163'); // 9,16,3: IPC
-const useSSL = getVariable('SSL', '0') === '1';
-const keyPath = useSSL && getVariable('KEY_PATH', '') || undefined;
-const certPath = useSSL && getVariable('CERT_PATH', '') || undefined;
-const pfxPath = useSSL && getVariable('PFX_PATH', '') || undefined;
-const passphrase = useSSL && getVariable('PASSPHRASE', '') || undefined;
-const ssl = useSSL ? { keyPath, certPath, pfxPath, passphrase } : undefined;
-const token = getVariable('TOKEN', '') || undefined;
-const maxPayload = +getVariable('MAX_PAYLOAD', '0') || undefined;
+// Usage: acebase-ipc-server [--config=settings.json] [--check] [NAME=value ...]
+// Settings are read from the config file, then overridden by environment variables and NAME=value args. Run with --help for details
+
+const args = process.argv.slice(2);
+
+function getOption(name: string) {
+    const index = args.findIndex(arg => arg === `--${name}` || arg.startsWith(`--${name}=`));
+    if (index < 0) { return undefined; }
+    return args[index].includes('=') ? args[index].slice(name.length + 3) : args[index + 1];
+}
+
+function printHelp() {
+    const width = Math.max(...ENVIRONMENT_VARIABLES.map(variable => variable.name.length));
+    console.log([
+        `Usage: acebase-ipc-server [options] [NAME=value ...]`,
+        ``,
+        `Options:`,
+        `  --config <file>   JSON or YAML file with server settings (see AceBaseIPCServerConfig)`,
+        `  --check           Validate the settings and exit without starting the server`,
+        `  --help            Show this help`,
+        ``,
+        `Settings in the config file can be overridden with environment variables, or NAME=value args:`,
+        ...ENVIRONMENT_VARIABLES.map(variable => `  ${variable.name.padEnd(width)}  ${variable.description}`),
+    ].join('\n'));
+}
+
+/**
+ * Copies settings with all tokens and passphrases replaced, so they can be printed
+ */
+function redact(settings: AceBaseIPCServerSettings) {
+    return JSON.parse(JSON.stringify(settings), (key, value) => ['token', 'adminToken', 'passphrase'].includes(key) && typeof value === 'string' ? '***' : value);
+}
+
+/**
+ * Checks whether files referred to by the settings exist
+ */
+function checkFiles(settings: AceBaseIPCServerSettings) {
+    const errors: string[] = [];
+    const files = [['ssl.certPath', settings.ssl?.certPath], ['ssl.keyPath', settings.ssl?.keyPath], ['ssl.pfxPath', settings.ssl?.pfxPath], ['ssl.caPath', settings.ssl?.caPath]];
+    files.forEach(([name, file]) => file && !fs.existsSync(file) && errors.push(`${name} file ${file} does not exist`));
+    const dirs = [['recorder.path', settings.recorder?.path && path.dirname(settings.recorder.path)], ['path', settings.path && path.dirname(settings.path)]];
+    dirs.forEach(([name, dir]) => dir && !fs.existsSync(dir) && errors.push(`${name} directory ${dir} does not exist`));
+    if (settings.ssl && errors.length === 0) {
+        try {
+            const { certPath, keyPath, pfxPath, passphrase, caPath } = settings.ssl;
+            const read = (file?: string) => file ? fs.readFileSync(file) : undefined;
+            tls.createSecureContext({ cert: read(certPath), key: read(keyPath), pfx: read(pfxPath), passphrase, ca: read(caPath) });
+        }
+        catch (err) {
+            errors.push(`ssl certificates can't be loaded: ${err instanceof Error ? err.message : err}`);
+        }
+    }
+    return errors;
+}
+
+if (args.includes('--help') || args.includes('-h')) {
+    printHelp();
+    process.exit(0);
+}
+
+const check = args.includes('--check');
+let settings: AceBaseIPCServerSettings = { port: 9163 }; // 9,16,3: IPC
+const configFile = getOption('config');
+try {
+    if (configFile) {
+        settings = { ...settings, ...readSettingsFile(configFile) };
+    }
+}
+catch (err) {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+}
+settings = applyEnvironment(settings, args, process.env);
+const errors = validateSettings(settings).concat(check ? checkFiles(settings) : []);
+if (errors.length > 0) {
+    console.error(`Invalid AceBase IPC server settings:\n${errors.map(err => `- ${err}`).join('\n')}`);
+    process.exit(1);
+}
+if (check) {
+    console.log(`AceBase IPC server settings are valid:\n${JSON.stringify(redact(settings), null, 2)}`);
+    process.exit(0);
+}
+
+const { log = {}, drainTimeout = 5000, ...config } = settings;
+const logger = new AceBaseIPCConsoleLogger({ level: log.level, json: log.format === 'json', payloads: log.payloads });
 
 (async function start() {
     try {
-        const server = new AceBaseIPCServer({ host, port, ssl, token, maxPayload }); //dbname, 
+        const server = new AceBaseIPCServer({ ...config, logger });
         await server.start();
+
+        // Stop gracefully when pm2 (or anything else) asks us to
+        const shutdown = async (signal: string) => {
+            logger.info(`Received ${signal}, stopping AceBase IPC server`);
+            await server.stop({ drainTimeoutMs: drainTimeout });
+            process.exit(0);
+        };
+        process.once('SIGTERM', shutdown);
+        process.once('SIGINT', shutdown);
+
         if (process.env?.NODE_APP_INSTANCE || process.env?.pm_id) {
             // Process was started by PM2, signal it's ready
-            process.send && process.send('ready'); 
+            process.send && process.send('ready');
         }
     }
     catch (err) {
-        console.error(err);
+        logger.error(`Failed to start AceBase IPC server`, { error: err });
+        process.exit(1);
     }
 })();
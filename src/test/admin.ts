@@ -0,0 +1,115 @@
+import assert from 'assert';
+import { test, startServer, waitUntil, nextEvent } from './harness';
+import { AceBaseIPCMemoryTransport } from '../memory';
+
+/**
+ * Sends an admin API request with the admin token, resolves with the status and parsed JSON body
+ */
+async function admin(transport: AceBaseIPCMemoryTransport, method: 'GET' | 'POST', path: string, body?: string) {
+    const response = await transport.request(method, path, { authorization: 'Bearer admin' }, body ? Buffer.from(body) : undefined);
+    const text = response.body.toString('utf8');
+    return { status: response.status, body: response.status === 200 ? JSON.parse(text) : text };
+}
+
+test('admin: refuses requests without the admin token', async () => {
+    const { transport, stop } = await startServer({ token: 'secret', adminToken: 'admin' });
+    try {
+        assert.strictEqual((await transport.request('GET', '/admin/databases', {})).status, 401);
+        assert.strictEqual((await transport.request('GET', '/admin/databases', { authorization: 'Bearer secret' })).status, 401, 'the client token is no admin token');
+        assert.strictEqual((await transport.request('POST', '/admin/testdb/block?t=wrong', {})).status, 401);
+        assert.strictEqual((await transport.request('GET', '/admin/databases?t=admin', {})).status, 200);
+        assert.strictEqual((await admin(transport, 'GET', '/admin/databases')).status, 200);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('admin: is disabled without an admin token', async () => {
+    const { transport, stop } = await startServer();
+    try {
+        assert.strictEqual((await transport.request('GET', '/admin/databases', { authorization: 'Bearer admin' })).status, 404);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('admin: lists databases and their clients, and disconnects clients', async () => {
+    const { createClient, transport, stop } = await startServer({ adminToken: 'admin' });
+    try {
+        const a = createClient({ id: 'client1' }), b = createClient({ id: 'client2', role: 'worker' });
+        await Promise.all([a.connect(), b.connect()]);
+        assert.deepStrictEqual((await admin(transport, 'GET', '/admin/databases')).body, [{ dbname: 'testdb', clients: 2, state: 'open' }]);
+        const clients: Array<{ id: string, role?: string }> = (await admin(transport, 'GET', '/admin/testdb/clients')).body;
+        assert.deepStrictEqual(clients.map(client => [client.id, client.role]), [['client1', undefined], ['client2', 'worker']]);
+
+        assert.strictEqual((await admin(transport, 'POST', '/admin/testdb/disconnect?id=client3')).status, 404);
+        const closed = nextEvent(b, 'close');
+        assert.deepStrictEqual((await admin(transport, 'POST', '/admin/testdb/disconnect?id=client2')).body, { disconnected: 'client2' });
+        await closed;
+        assert.deepStrictEqual((await admin(transport, 'GET', '/admin/databases')).body, [{ dbname: 'testdb', clients: 1, state: 'open' }]);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('admin: drains, blocks and unblocks databases', async () => {
+    const { createClient, transport, stop } = await startServer({ adminToken: 'admin' });
+    try {
+        const a = createClient({ id: 'client1' });
+        await a.connect();
+        const shutdown = nextEvent(a, 'shutdown');
+        assert.deepStrictEqual((await admin(transport, 'POST', '/admin/testdb/drain')).body, { dbname: 'testdb', state: 'draining' });
+        await shutdown;
+        await assert.rejects(createClient({ id: 'client2' }).connect(), /503/);
+
+        let closed = false;
+        a.on('close', () => closed = true);
+        await admin(transport, 'POST', '/admin/testdb/block');
+        await waitUntil(() => closed);
+        assert.deepStrictEqual((await admin(transport, 'GET', '/admin/databases')).body, [{ dbname: 'testdb', clients: 0, state: 'blocked' }]);
+
+        await admin(transport, 'POST', '/admin/testdb/unblock');
+        await createClient({ id: 'client2' }).connect();
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('admin: sends notices to all clients of a database', async () => {
+    const { createClient, transport, stop } = await startServer({ adminToken: 'admin' });
+    try {
+        const a = createClient({ id: 'client1' }), other = createClient({ id: 'client2', dbname: 'otherdb' });
+        await Promise.all([a.connect(), other.connect()]);
+        const notices: string[] = [];
+        other.on('notice', text => notices.push(text));
+        const notice = nextEvent(a, 'notice');
+        assert.deepStrictEqual((await admin(transport, 'POST', '/admin/testdb/notice', 'Maintenance at 12:00')).body, { recipients: 1 });
+        assert.deepStrictEqual(await notice, ['Maintenance at 12:00']);
+        assert.deepStrictEqual(notices, []);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('admin: refuses notices that exceed the payload size', async () => {
+    const { createClient, transport, stop } = await startServer({ adminToken: 'admin', maxPayload: 100 });
+    try {
+        const a = createClient({ id: 'client1' });
+        await a.connect();
+        const notices: string[] = [];
+        a.on('notice', text => notices.push(text));
+        assert.strictEqual((await admin(transport, 'POST', '/admin/testdb/notice', 'a'.repeat(94))).status, 413);
+        assert.strictEqual((await admin(transport, 'POST', '/admin/testdb/notice', 'a'.repeat(1024 * 1024))).status, 413);
+        assert.deepStrictEqual((await admin(transport, 'POST', '/admin/testdb/notice', 'a'.repeat(93))).body, { recipients: 1 });
+        await waitUntil(() => notices.length === 1);
+        assert.deepStrictEqual(notices, ['a'.repeat(93)]);
+    }
+    finally {
+        await stop();
+    }
+});
@@ -0,0 +1,92 @@
+import assert from 'assert';
+import { test, startServer, collectMessages, waitUntil, interceptSocket } from './harness';
+import { AceBaseIPCServerConfig } from '../server';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Starts a server with a sending client1 and a receiving client2, whose connection can be paused to build up back pressure
+ */
+async function startSlowClient(config: Partial<AceBaseIPCServerConfig>) {
+    const server = await startServer(config);
+    const intercepted = interceptSocket(server.transport);
+    const sender = server.createClient({ id: 'client1' });
+    const receiver = server.createClient({ id: 'client2', transport: intercepted.transport });
+    await Promise.all([sender.connect(), receiver.connect()]);
+    await wait(20); // Presence messages are delivered
+    return { ...server, sender, receiver, socket: intercepted.socket };
+}
+
+const messages = [0, 1, 2, 3, 4, 5].map(i => `${i}`.padEnd(60, '.'));
+
+test('backpressure: buffers messages until the client drains, and drops new ones once the buffer is full', async () => {
+    const { sender, receiver, socket, stop } = await startSlowClient({ backpressure: { maxBackpressure: 100, maxBufferSize: 150 } });
+    try {
+        const received = collectMessages(receiver);
+        const slow: string[] = [];
+        sender.on('slow', id => slow.push(id));
+        socket.pause();
+        for (const message of messages) {
+            await sender.send(message, 'client2');
+        }
+        await waitUntil(() => slow.length === 1);
+        socket.resume();
+        await waitUntil(() => received.length === 3);
+        await wait(20);
+        assert.deepStrictEqual(received, messages.slice(0, 3));
+        assert.deepStrictEqual(slow, ['client2']);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('backpressure: drops the oldest buffered messages with the drop-oldest policy', async () => {
+    const { sender, receiver, socket, stop } = await startSlowClient({ backpressure: { policy: 'drop-oldest', maxBackpressure: 100, maxBufferSize: 150 } });
+    try {
+        const received = collectMessages(receiver);
+        socket.pause();
+        for (const message of messages) {
+            await sender.send(message, 'client2');
+        }
+        await wait(20);
+        socket.resume();
+        await waitUntil(() => received.length === 3);
+        await wait(20);
+        assert.deepStrictEqual(received, [messages[0], messages[4], messages[5]]);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('backpressure: disconnects a slow client with the disconnect policy', async () => {
+    const { sender, receiver, socket, stop } = await startSlowClient({ backpressure: { policy: 'disconnect', maxBackpressure: 100 } });
+    try {
+        let closed = false;
+        receiver.on('close', () => closed = true);
+        socket.pause();
+        for (const message of messages.slice(0, 2)) {
+            await sender.send(message, 'client2');
+        }
+        await waitUntil(() => closed);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('backpressure: sends messages larger than maxBackpressure once nothing is buffered', async () => {
+    const { sender, receiver, stop } = await startSlowClient({ backpressure: { maxBackpressure: 10 } });
+    try {
+        const received = collectMessages(receiver);
+        for (const message of messages) {
+            await sender.send(message, 'client2');
+        }
+        await waitUntil(() => received.length === messages.length);
+        assert.deepStrictEqual(received, messages);
+    }
+    finally {
+        await stop();
+    }
+});
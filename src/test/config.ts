@@ -0,0 +1,45 @@
+import assert from 'assert';
+import { test } from './harness';
+import { applyEnvironment, validateSettings } from '../config';
+
+test('config: startup args take precedence over environment variables, which take precedence over settings', () => {
+    const settings = applyEnvironment({ port: 9163, host: 'localhost', token: 'file' }, ['PORT=9200'], { PORT: '9100', TOKEN: 'env', HOST: '' });
+    assert.strictEqual(settings.port, 9200);
+    assert.strictEqual(settings.token, 'env');
+    assert.strictEqual(settings.host, 'localhost', 'empty values are ignored');
+});
+
+test('config: parses values and creates nested settings', () => {
+    const settings = applyEnvironment({ port: 9163, ssl: { certPath: 'cert.pem' } }, [], {
+        FEDERATION_PEERS: 'ws://a:9163, ws://b:9163,',
+        GZIP: 'yes',
+        LOG_LEVEL: 'DEBUG',
+        LOCKS: 'true',
+        SSL: '0',
+    });
+    assert.deepStrictEqual(settings.federation, { peers: ['ws://a:9163', 'ws://b:9163'] });
+    assert.strictEqual(settings.gzip, true);
+    assert.deepStrictEqual(settings.log, { level: 'debug' });
+    assert.deepStrictEqual(settings.locks, {});
+    assert.strictEqual(settings.ssl, undefined, 'SSL=0 removes the certificate settings');
+});
+
+test('config: describes invalid settings', () => {
+    assert.deepStrictEqual(validateSettings({ port: 9163 }), []);
+    assert.deepStrictEqual(validateSettings('9163'), ['Settings must be an object, got "9163"']);
+    assert.deepStrictEqual(validateSettings({ port: 'abc', maxPayload: 0, prot: 1, log: { level: 'verbose' } }), [
+        'port must be a number, got "abc"',
+        'maxPayload must be 1 or more, got 0',
+        'Unknown setting prot',
+        'log.level must be "error", "warn", "info", "debug" or "trace", got "verbose"',
+    ]);
+    assert.deepStrictEqual(validateSettings({ recorder: {} }), ['port is required', 'recorder.path is required']);
+});
+
+test('config: checks settings that depend on each other', () => {
+    assert.deepStrictEqual(validateSettings({ port: 9163, ssl: { certPath: 'cert.pem' } }), ['ssl requires certPath and keyPath, or pfxPath']);
+    assert.deepStrictEqual(validateSettings({ port: 9163, federation: { peers: [] }, locks: {} }), [
+        'federation requires federation.token or token',
+        'locks can\'t be used with federation',
+    ]);
+});
@@ -0,0 +1,112 @@
+import assert from 'assert';
+import { test, startServer, nextEvent, interceptSocket } from './harness';
+import { AceBaseIPCClient } from '../client';
+
+test('disconnect: notifies peers of disconnected clients', async () => {
+    const { createClient, stop } = await startServer();
+    try {
+        const a = createClient({ id: 'client1' }), b = createClient({ id: 'client2' });
+        await Promise.all([a, b].map(client => client.connect()));
+        const disconnected = nextEvent(a, 'peer-disconnect');
+        b.close();
+        assert.deepStrictEqual(await disconnected, ['client2']);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('disconnect: accepts a new master once the master disconnected', async () => {
+    const { createClient, stop } = await startServer();
+    try {
+        const master = createClient({ id: 'master1', role: 'master' }), worker = createClient({ id: 'worker1' });
+        await Promise.all([master, worker].map(client => client.connect()));
+        const disconnected = nextEvent(worker, 'peer-disconnect');
+        master.close();
+        await disconnected;
+        const replacement = createClient({ id: 'master2', role: 'master' });
+        await replacement.connect();
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('disconnect: elects a new master when the master disconnects', async () => {
+    const { createClient, stop } = await startServer({ masterElection: true });
+    try {
+        const master = createClient({ id: 'master1', role: 'master' });
+        await master.connect();
+        const [a, b] = ['worker1', 'worker2'].map(id => createClient({ id, role: 'worker' }));
+        await a.connect();
+        await b.connect();
+        const elected = [nextEvent(a, 'master'), nextEvent(b, 'master')];
+        master.close();
+        assert.deepStrictEqual(await Promise.all(elected), [['worker1'], ['worker1']], 'the longest connected worker is promoted');
+        await assert.rejects(createClient({ id: 'master2', role: 'master' }).connect(), /Connection refused: 409/);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('disconnect: waits for the grace period before notifying peers', async () => {
+    const { createClient, stop } = await startServer({ reconnectGracePeriod: 200 });
+    try {
+        const a = createClient({ id: 'client1' }), b = createClient({ id: 'client2' });
+        await Promise.all([a, b].map(client => client.connect()));
+        const events: string[] = [];
+        a.on('peer-disconnect', id => events.push(`disconnect:${id}`));
+        a.on('peer-reconnect', id => events.push(`reconnect:${id}`));
+        const reconnected = nextEvent(a, 'peer-reconnect');
+        b.close();
+        await new Promise(resolve => setTimeout(resolve, 20));
+        await createClient({ id: 'client2' }).connect();
+        await reconnected;
+        assert.deepStrictEqual(events, ['reconnect:client2']);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('disconnect: notifies clients when the server shuts down', async () => {
+    const { createClient, stop } = await startServer();
+    const a = createClient({ id: 'client1' });
+    await a.connect();
+    const shutdown = nextEvent(a, 'shutdown');
+    await stop();
+    await shutdown;
+});
+
+test('disconnect: clients without error listeners do not throw on connection errors', async () => {
+    const { transport, stop } = await startServer();
+    try {
+        const intercepted = interceptSocket(transport);
+        const a = new AceBaseIPCClient({ dbname: 'testdb', id: 'client1', transport: intercepted.transport });
+        await a.connect();
+        intercepted.socket.emit('error', new Error('connection reset'));
+        const errors: Error[] = [];
+        a.on('error', err => errors.push(err));
+        intercepted.socket.emit('error', new Error('connection reset'));
+        assert.deepStrictEqual(errors.map(err => err.message), ['connection reset']);
+        a.close();
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('disconnect: pings of a client that is not connected fail without leaving handlers behind', async () => {
+    const { createClient, stop } = await startServer();
+    try {
+        const a = createClient({ id: 'client1', timeout: 200 });
+        await assert.rejects(a.ping(), /Not connected/);
+        await a.connect();
+        // A handler left behind would take the pong of this ping, which would time out then
+        assert.strictEqual(typeof await a.ping(), 'number');
+    }
+    finally {
+        await stop();
+    }
+});
@@ -0,0 +1,120 @@
+import assert from 'assert';
+import { test, startServer, collectMessages, waitUntil, nextEvent } from './harness';
+import { AceBaseIPCClientInfo, AceBaseIPCLargeMessageInfo, AceBaseIPCMessageContext } from '../server';
+
+test('events: emits connect and disconnect events', async () => {
+    const { server, createClient, stop } = await startServer();
+    try {
+        const connected = nextEvent(server, 'connect');
+        const a = createClient({ id: 'client1', role: 'worker' });
+        await a.connect();
+        const [client] = await connected as [AceBaseIPCClientInfo];
+        assert.strictEqual(client.id, 'client1');
+        assert.strictEqual(client.dbname, 'testdb');
+        assert.strictEqual(client.role, 'worker');
+
+        const disconnected = nextEvent(server, 'disconnect');
+        a.close();
+        assert.strictEqual((await disconnected)[0].id, 'client1');
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('events: emits message and largeMessage events', async () => {
+    const { server, createClient, stop } = await startServer({ maxPayload: 100 });
+    try {
+        const a = createClient({ id: 'client1' }), b = createClient({ id: 'client2' });
+        await Promise.all([a, b].map(client => client.connect()));
+        const messages: AceBaseIPCMessageContext[] = [], largeMessages: AceBaseIPCLargeMessageInfo[] = [];
+        server.on('message', context => messages.push(context));
+        server.on('largeMessage', message => largeMessages.push(message));
+        const received = collectMessages(b);
+        const large = new Array(1000).fill('x').join('');
+        await a.send('hello', 'client2');
+        await a.send(large, 'client2');
+        await waitUntil(() => received.length === 2);
+        assert.deepStrictEqual(messages.map(context => [context.client.id, context.message]), [['client1', 'to:client2;hello'], ['client1', 'to:client2;']]);
+        assert.strictEqual(messages[1].largeMessageId, largeMessages[0].id);
+        assert.strictEqual(largeMessages[0].size, 1000);
+        assert.strictEqual(largeMessages[0].binary, false);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('events: middleware can rewrite and drop messages', async () => {
+    const { server, createClient, stop } = await startServer();
+    try {
+        server.use(({ message }) => message.includes('secret') ? false : undefined);
+        server.use(({ client, message }) => message.startsWith('to:') ? undefined : `[${client.id}] ${message}`);
+        const a = createClient({ id: 'client1' }), b = createClient({ id: 'client2' });
+        await Promise.all([a, b].map(client => client.connect()));
+        const received = collectMessages(b);
+        await a.send('secret');
+        await a.send('hello');
+        await a.send('direct', 'client2');
+        await waitUntil(() => received.length === 2);
+        assert.deepStrictEqual(received, ['[client1] hello', 'direct']);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('events: drops messages if middleware throws, and emits the error', async () => {
+    const { server, createClient, stop } = await startServer();
+    try {
+        server.use(() => { throw new Error('middleware failed'); });
+        const a = createClient({ id: 'client1' }), b = createClient({ id: 'client2' });
+        await Promise.all([a, b].map(client => client.connect()));
+        const received = collectMessages(b);
+        const error = nextEvent(server, 'error');
+        await a.send('hello');
+        assert.strictEqual((await error)[0].message, 'middleware failed');
+        assert.deepStrictEqual(received, []);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('events: middleware can drop binary frames', async () => {
+    const { server, createClient, stop } = await startServer();
+    try {
+        const contexts: AceBaseIPCMessageContext[] = [];
+        server.use(context => { contexts.push(context); return context.payload?.[0] === 0 ? false : 'rewritten'; });
+        const a = createClient({ id: 'client1', binary: true }), b = createClient({ id: 'client2', binary: true });
+        await Promise.all([a, b].map(client => client.connect()));
+        const received: Buffer[] = [];
+        b.on('message', payload => received.push(payload));
+        await a.sendBinary(new Uint8Array([0]));
+        await a.sendBinary(new Uint8Array([1, 2]), 'client2');
+        await waitUntil(() => received.length === 1);
+        assert.deepStrictEqual([...received[0]], [1, 2], 'binary frames are not rewritten');
+        assert.deepStrictEqual(contexts.map(context => [context.message, context.binary, [...context.payload || []]]), [['', true, [0]], ['to:client2;', true, [1, 2]]]);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('events: errors of event listeners do not interrupt handling disconnects', async () => {
+    const { server, createClient, stop } = await startServer({ locks: {} });
+    try {
+        const a = createClient({ id: 'client1' }), b = createClient({ id: 'client2' });
+        await Promise.all([a, b].map(client => client.connect()));
+        await a.lock('users', { write: true });
+        const pending = b.lock('users');
+        server.once('disconnect', () => { throw new Error('listener failed'); });
+        const error = nextEvent(server, 'error');
+        a.close();
+        assert.strictEqual((await error)[0].message, 'listener failed');
+        await pending; // Lock of the disconnected client was released
+    }
+    finally {
+        await stop();
+    }
+});
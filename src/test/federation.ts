@@ -0,0 +1,67 @@
+import assert from 'assert';
+import { test, startServer, collectMessages, waitUntil, nextEvent } from './harness';
+import { AceBaseIPCMemoryTransport } from '../memory';
+import { AceBaseIPCServer } from '../server';
+import { PROTOCOL_VERSION } from '../protocol';
+
+/**
+ * Starts 2 servers linked with each other
+ */
+async function startFederation() {
+    const transports = [new AceBaseIPCMemoryTransport(), new AceBaseIPCMemoryTransport()];
+    const servers = await Promise.all(transports.map((transport, i) => startServer({
+        token: 'secret',
+        maxPayload: 100,
+        federation: { id: `server${i + 1}`, peers: [transports[1 - i]], reconnectDelay: 10 },
+    }, transport)));
+    return {
+        servers,
+        async stop() {
+            await Promise.all(servers.map(server => server.stop()));
+        },
+    };
+}
+
+test('federation: refuses to start without a token', async () => {
+    const server = new AceBaseIPCServer({ listen: false, transports: [new AceBaseIPCMemoryTransport()], federation: { peers: [] } });
+    await assert.rejects(server.start(), /federation requires federation.token or token/);
+});
+
+test('federation: refuses links without the token', async () => {
+    const { transport, stop } = await startServer({ tokens: { testdb: ['secret'] }, federation: { token: 'federation', peers: [] } });
+    try {
+        const ws = transport.connect(`/_federation?id=intruder&v=${PROTOCOL_VERSION}`, {});
+        const [, res] = await new Promise<any[]>(resolve => ws.on('unexpected-response', (...args) => resolve(args)));
+        assert.strictEqual(res.statusCode, 403);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('federation: routes messages between clients of linked servers', async () => {
+    const { servers, stop } = await startFederation();
+    try {
+        const a = servers[0].createClient({ id: 'client1' });
+        await a.connect();
+        const b = servers[1].createClient({ id: 'client2' });
+        const connected = nextEvent(a, 'peer-connect');
+        await b.connect();
+        assert.deepStrictEqual(await connected, ['client2']);
+
+        const received = { a: collectMessages(a), b: collectMessages(b) };
+        const large = new Array(1000).fill('x').join('');
+        await a.send('hello client2', 'client2');
+        await b.send(large);
+        await waitUntil(() => received.a.length === 1 && received.b.length === 1);
+        assert.deepStrictEqual(received.b, ['hello client2']);
+        assert.strictEqual(received.a[0], large);
+
+        const disconnected = nextEvent(a, 'peer-disconnect');
+        b.close();
+        assert.deepStrictEqual(await disconnected, ['client2']);
+    }
+    finally {
+        await stop();
+    }
+});
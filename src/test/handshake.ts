@@ -0,0 +1,128 @@
+import assert from 'assert';
+import { test, startServer, waitUntil } from './harness';
+import { MIN_PROTOCOL_VERSION, PROTOCOL_VERSION, negotiateVersion } from '../protocol';
+import { AceBaseIPCMemoryTransport } from '../memory';
+
+/**
+ * Connects to a server without a client, resolves with the socket and the text messages it receives once connected
+ */
+async function connectRaw(transport: AceBaseIPCMemoryTransport, query: string) {
+    const ws = transport.connect(`/testdb/connect?${query}`, {});
+    const messages: string[] = [];
+    ws.on('message', (data: Buffer) => messages.push(data.toString('utf8')));
+    await new Promise(resolve => ws.on('open', resolve));
+    await waitUntil(() => messages.length > 0); // welcome
+    return { ws, messages };
+}
+
+test('handshake: welcomes a client with the server settings', async () => {
+    const { createClient, stop } = await startServer({ maxPayload: 1000 });
+    try {
+        const welcome = await createClient({ id: 'client1' }).connect();
+        assert.strictEqual(welcome.maxPayload, 1000);
+        assert.strictEqual(welcome.version, PROTOCOL_VERSION);
+        assert.ok(welcome.capabilities?.includes('requests'));
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('handshake: refuses a client without a protocol version with 409', async () => {
+    const { transport, stop } = await startServer();
+    try {
+        const ws = transport.connect('/testdb/connect?id=client1', {});
+        const [, res] = await new Promise<any[]>(resolve => ws.on('unexpected-response', (...args) => resolve(args)));
+        assert.strictEqual(res.statusCode, 409);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('handshake: refuses a second master with 409', async () => {
+    const { createClient, stop } = await startServer();
+    try {
+        await createClient({ id: 'master1', role: 'master' }).connect();
+        await assert.rejects(createClient({ id: 'master2', role: 'master' }).connect(), /Connection refused: 409/);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('handshake: refuses an invalid client id with 500', async () => {
+    const { createClient, stop } = await startServer();
+    try {
+        await assert.rejects(createClient({ id: 'abc' }).connect(), /Connection refused: 500/);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('handshake: refuses a wrong token with 403', async () => {
+    const { createClient, stop } = await startServer({ token: 'secret' });
+    try {
+        await assert.rejects(createClient({ id: 'client1', token: 'wrong' }).connect(), /Connection refused: 403/);
+        await createClient({ id: 'client2', token: 'secret' }).connect();
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('handshake: refuses a malformed token with 403', async () => {
+    const { transport, stop } = await startServer({ token: 'secret' });
+    try {
+        const ws = transport.connect(`/testdb/connect?id=client1&v=${PROTOCOL_VERSION}&t=%`, {});
+        const [, res] = await new Promise<any[]>(resolve => ws.on('unexpected-response', (...args) => resolve(args)));
+        assert.strictEqual(res.statusCode, 403);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('handshake: agrees on the newest protocol version both sides support', () => {
+    const [major, minor] = PROTOCOL_VERSION.split('.').map(n => +n);
+    assert.deepStrictEqual(negotiateVersion(PROTOCOL_VERSION), { version: PROTOCOL_VERSION });
+    assert.deepStrictEqual(negotiateVersion(`${major}.${minor + 1}.0`), { version: PROTOCOL_VERSION });
+    assert.deepStrictEqual(negotiateVersion(`${major}`), { version: `${major}.0.0` });
+    assert.deepStrictEqual(negotiateVersion(`${major + 1}.0.0`, MIN_PROTOCOL_VERSION), { version: PROTOCOL_VERSION });
+    assert.match((negotiateVersion(`${major + 1}.0.0`) as { error: string }).error, /Update acebase-ipc-server package/);
+    assert.match((negotiateVersion('0.9.0') as { error: string }).error, /Update the client/);
+    assert.match((negotiateVersion('latest') as { error: string }).error, /Invalid client IPC protocol version/);
+});
+
+test('handshake: treats malformed capabilities as none', async () => {
+    const { transport, stop } = await startServer();
+    try {
+        const { messages } = await connectRaw(transport, `id=client1&v=${PROTOCOL_VERSION}&cap=%`);
+        assert.deepStrictEqual(JSON.parse(messages[0].slice(8)).capabilities, []);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('handshake: drops messages of capabilities a client did not negotiate', async () => {
+    const { transport, createClient, stop } = await startServer();
+    try {
+        const { ws, messages } = await connectRaw(transport, `id=client1&v=${PROTOCOL_VERSION}&cap=requests`);
+        const b = createClient({ id: 'client2' }), c = createClient({ id: 'client3' });
+        await Promise.all([b.connect(), c.connect()]);
+        ws.send('sub:news');
+        await c.subscribe('news');
+        const received: string[] = [];
+        c.on('publish', (topic, payload) => received.push(payload));
+        await new Promise(resolve => setTimeout(resolve, 20));
+        await b.publish('news', 'hello news');
+        await waitUntil(() => received.length === 1);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        assert.ok(!messages.some(msg => msg.includes('hello news')));
+    }
+    finally {
+        await stop();
+    }
+});
@@ -0,0 +1,122 @@
+import { EventEmitter } from 'events';
+import { AceBaseIPCServer, AceBaseIPCServerConfig } from '../server';
+import { AceBaseIPCClient, AceBaseIPCClientOptions } from '../client';
+import { AceBaseIPCClientTransport } from '../transport';
+import { AceBaseIPCMemoryTransport } from '../memory';
+import { AceBaseIPCConsoleLogger } from '../logger';
+
+type TestFunction = () => Promise<void> | void;
+
+const tests: { name: string, fn: TestFunction }[] = [];
+
+/**
+ * Registers a test, tests run in the order they were registered
+ */
+export function test(name: string, fn: TestFunction) {
+    tests.push({ name, fn });
+}
+
+/**
+ * Runs all registered tests, exits with code 1 if any of them failed
+ * @param timeout maximum time in ms each test may take
+ */
+export async function run(timeout = 5000) {
+    let failed = 0;
+    for (const { name, fn } of tests) {
+        let timer: NodeJS.Timeout | undefined;
+        try {
+            await Promise.race([
+                fn(),
+                new Promise((resolve, reject) => { timer = setTimeout(() => reject(new Error(`Timed out after ${timeout}ms`)), timeout); }),
+            ]);
+            console.log(`  ok   ${name}`);
+        }
+        catch (err) {
+            failed++;
+            console.error(`  FAIL ${name}`);
+            console.error(err);
+        }
+        finally {
+            timer && clearTimeout(timer);
+        }
+    }
+    console.log(`${tests.length - failed} passed, ${failed} failed`);
+    process.exitCode = failed > 0 ? 1 : 0;
+    // Failed tests may not have stopped their servers and clients, don't wait for them
+    failed > 0 && process.exit();
+}
+
+/**
+ * Resolves with the arguments of the next event emitted by an emitter
+ */
+export function nextEvent(emitter: EventEmitter, event: string) {
+    return new Promise<any[]>(resolve => emitter.once(event, (...args: any[]) => resolve(args)));
+}
+
+/**
+ * Collects the `"message"` events of a client
+ */
+export function collectMessages(client: AceBaseIPCClient) {
+    const messages: string[] = [];
+    client.on('message', msg => messages.push(msg));
+    return messages;
+}
+
+/**
+ * Waits until a condition is met, checking it every few ms
+ */
+export async function waitUntil(condition: () => boolean, interval = 5) {
+    while (!condition()) {
+        await new Promise(resolve => setTimeout(resolve, interval));
+    }
+}
+
+/**
+ * Wraps an in-memory transport to get hold of the socket a client connects with, eg to send data the client would not
+ * send itself, or to pause receiving messages
+ */
+export function interceptSocket(transport: AceBaseIPCMemoryTransport) {
+    let socket: ReturnType<AceBaseIPCMemoryTransport['connect']> | undefined;
+    const intercepting: AceBaseIPCClientTransport = {
+        connect: (path, headers) => socket = transport.connect(path, headers),
+        request: (method, path, headers, body) => transport.request(method, path, headers, body),
+    };
+    return {
+        transport: intercepting,
+        /** Socket of the last connection, throws if the client did not connect yet */
+        get socket() {
+            if (!socket) { throw new Error('Client did not connect'); }
+            return socket;
+        },
+    };
+}
+
+/**
+ * Starts a server that doesn't listen on the network, clients connect through an in-memory transport
+ * @param transport transport of the server, eg if other servers must link with it before it started
+ */
+export async function startServer(config: Partial<AceBaseIPCServerConfig> = {}, transport = new AceBaseIPCMemoryTransport()) {
+    const server = new AceBaseIPCServer({
+        listen: false,
+        transports: [transport],
+        logger: new AceBaseIPCConsoleLogger({ level: 'error' }),
+        ...config,
+    });
+    await server.start();
+    const clients: AceBaseIPCClient[] = [];
+    return {
+        server,
+        transport,
+        /** Creates a client for the server, it is closed when the server is stopped */
+        createClient(options: Partial<AceBaseIPCClientOptions> & { transport?: AceBaseIPCClientTransport } = {}) {
+            const client = new AceBaseIPCClient({ dbname: 'testdb', token: config.token, transport, ...options });
+            client.on('error', () => { /* Tests check the errors they expect */ });
+            clients.push(client);
+            return client;
+        },
+        async stop() {
+            clients.forEach(client => client.close());
+            await server.stop({ drainTimeoutMs: 0 });
+        },
+    };
+}
@@ -0,0 +1,167 @@
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { test, startServer, collectMessages, waitUntil, nextEvent, interceptSocket } from './harness';
+import { AceBaseIPCMemoryMessageStore } from '../large-messages';
+import { BinaryFrameType, createBinaryFrame } from '../binary';
+
+const maxPayload = 100;
+const large = (char: string) => new Array(10 * maxPayload).fill(char).join('');
+
+test('large messages: uploads and downloads directed messages over http', async () => {
+    const { server, createClient, stop } = await startServer({ maxPayload });
+    try {
+        const a = createClient({ id: 'client1' }), b = createClient({ id: 'client2' });
+        await Promise.all([a, b].map(client => client.connect()));
+        const received = collectMessages(b);
+        const payload = large('a');
+        await a.send(payload, 'client2');
+        await waitUntil(() => received.length === 1);
+        assert.strictEqual(received[0], payload);
+        assert.strictEqual(server.largeMessages.count, 0, 'downloaded message should be removed from the store');
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('large messages: each peer downloads a broadcast message', async () => {
+    const { server, createClient, stop } = await startServer({ maxPayload });
+    try {
+        const [a, b, c] = ['client1', 'client2', 'client3'].map(id => createClient({ id }));
+        await Promise.all([a, b, c].map(client => client.connect()));
+        const received = { b: collectMessages(b), c: collectMessages(c) };
+        const payload = large('b');
+        await a.send(payload);
+        await waitUntil(() => received.b.length === 1 && received.c.length === 1);
+        assert.strictEqual(received.b[0], payload);
+        assert.strictEqual(received.c[0], payload);
+        assert.strictEqual(server.largeMessages.count, 0);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('large messages: supports gzip compressed uploads and downloads', async () => {
+    const { createClient, stop } = await startServer({ maxPayload });
+    try {
+        const a = createClient({ id: 'client1', gzip: true }), b = createClient({ id: 'client2', gzip: true });
+        await Promise.all([a, b].map(client => client.connect()));
+        const received = collectMessages(b);
+        const payload = large('c');
+        await a.send(payload, 'client2');
+        await waitUntil(() => received.length === 1);
+        assert.strictEqual(received[0], payload);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('large messages: closes connections that exceed the max payload', async () => {
+    const { transport, createClient, stop } = await startServer({ maxPayload });
+    try {
+        const intercepted = interceptSocket(transport);
+        const a = createClient({ id: 'client1', transport: intercepted.transport });
+        await a.connect();
+        const closed = nextEvent(a, 'close');
+        // Bypass the client's automatic upload by sending on its socket directly
+        intercepted.socket.send(large('d'));
+        await closed;
+        assert.strictEqual(a.connected, false);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('large messages: refuses compressed uploads that inflate beyond the max body size', async () => {
+    const { server, transport, createClient, stop } = await startServer({ maxPayload, maxBodySize: 100 * 1024 });
+    try {
+        await createClient({ id: 'client1' }).connect();
+        const body = zlib.gzipSync(Buffer.alloc(10 * 1024 * 1024, 'a'));
+        const response = await transport.request('POST', '/testdb/send?id=client1', { 'content-encoding': 'gzip' }, body);
+        assert.strictEqual(response.status, 413);
+        assert.strictEqual(server.largeMessages.size, 0);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('large messages: does not store uploads of clients that are not authenticated', async () => {
+    const { server, transport, createClient, stop } = await startServer({ maxPayload, token: 'secret' });
+    try {
+        await createClient({ id: 'client1' }).connect();
+        const createWriter = server.largeMessages.createWriter.bind(server.largeMessages);
+        let writers = 0;
+        server.largeMessages.createWriter = id => { writers++; return createWriter(id); };
+        const response = await transport.request('POST', '/testdb/send?id=client1&t=wrong', {}, Buffer.from(large('a')));
+        assert.strictEqual(response.status, 401);
+        assert.strictEqual(writers, 0);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('large messages: refuses binary uploads with an invalid frame header', async () => {
+    const { server, transport, createClient, stop } = await startServer({ maxPayload });
+    try {
+        await createClient({ id: 'client1', binary: true }).connect();
+        const headers = { 'content-type': 'application/octet-stream' };
+        const download = createBinaryFrame(BinaryFrameType.Download, 'message1', Buffer.from(large('a')));
+        for (const body of [Buffer.from([2, 20, 1]), Buffer.from([9, 0, 1, 2, 3]), download]) {
+            const response = await transport.request('POST', '/testdb/send?id=client1', headers, body);
+            assert.strictEqual(response.status, 400);
+        }
+        assert.strictEqual(server.largeMessages.count, 0);
+        const valid = createBinaryFrame(BinaryFrameType.Broadcast, '', Buffer.from(large('a')));
+        assert.strictEqual((await transport.request('POST', '/testdb/send?id=client1', headers, valid)).status, 200);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('large messages: stops writing messages that expired during the upload', async () => {
+    const store = new AceBaseIPCMemoryMessageStore({ ttl: 10 });
+    const writer = store.createWriter('message1');
+    assert.strictEqual(writer.write(Buffer.alloc(100)), true);
+    await new Promise(resolve => setTimeout(resolve, 30));
+    assert.strictEqual(writer.write(Buffer.alloc(100)), false);
+    writer.abort();
+    assert.strictEqual(store.size, 0);
+    assert.strictEqual(store.count, 0);
+});
+
+test('large messages: pauses uploads until the disk store caught up, and removes its directory when stopped', async () => {
+    const { server, createClient, stop } = await startServer({ maxPayload, largeMessages: { type: 'disk' } });
+    const dir = path.join(os.tmpdir(), `acebase-ipc-${process.pid}`);
+    try {
+        const a = createClient({ id: 'client1' }), b = createClient({ id: 'client2' });
+        await Promise.all([a, b].map(client => client.connect()));
+        const createWriter = server.largeMessages.createWriter.bind(server.largeMessages);
+        let pauses = 0;
+        server.largeMessages.createWriter = id => {
+            const writer = createWriter(id);
+            const drained = writer.drained;
+            writer.drained = () => { pauses++; return drained(); };
+            return writer;
+        };
+        const received = collectMessages(b);
+        const payload = 'a'.repeat(1024 * 1024);
+        await a.send(payload, 'client2');
+        await waitUntil(() => received.length === 1);
+        assert.strictEqual(received[0], payload);
+        assert.ok(pauses > 0, 'the upload was paused');
+        assert.strictEqual(fs.existsSync(dir), true);
+    }
+    finally {
+        await stop();
+    }
+    assert.strictEqual(fs.existsSync(dir), false);
+});
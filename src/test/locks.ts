@@ -0,0 +1,135 @@
+import assert from 'assert';
+import { test, startServer } from './harness';
+import { AceBaseIPCLockConfig, AceBaseIPCLockManager, pathsOverlap } from '../locks';
+import { PROTOCOL_VERSION } from '../protocol';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Creates a lock manager that logs its notifications as `"[event]:[clientId]/[id]"`
+ */
+function createLockManager(config: AceBaseIPCLockConfig = {}) {
+    const events: string[] = [];
+    const manager = new AceBaseIPCLockManager(config, {
+        granted: (dbname, lock) => events.push(`granted:${lock.clientId}/${lock.id}`),
+        refused: (dbname, lock, reason) => events.push(`${reason}:${lock.clientId}/${lock.id}`),
+        expired: (dbname, lock) => events.push(`expired:${lock.clientId}/${lock.id}`),
+    });
+    return { manager, events };
+}
+
+test('locks: paths overlap with their ancestors and descendants', () => {
+    assert.strictEqual(pathsOverlap('users/ewout', 'users/ewout'), true);
+    assert.strictEqual(pathsOverlap('users', 'users/ewout/posts'), true);
+    assert.strictEqual(pathsOverlap('list[0]', 'list'), true);
+    assert.strictEqual(pathsOverlap('', 'users'), true);
+    assert.strictEqual(pathsOverlap('users/ewout', 'users/ewoud'), false);
+    assert.strictEqual(pathsOverlap('users', 'users2'), false);
+});
+
+test('locks: grants conflicting locks in the order they were requested', () => {
+    const { manager, events } = createLockManager();
+    manager.lock('testdb', { id: '1', clientId: 'a', path: 'users', write: false });
+    manager.lock('testdb', { id: '2', clientId: 'b', path: 'users/ewout', write: false });
+    manager.lock('testdb', { id: '3', clientId: 'c', path: 'users/ewout', write: true });
+    manager.lock('testdb', { id: '4', clientId: 'd', path: 'users', write: false });
+    manager.lock('testdb', { id: '5', clientId: 'e', path: 'posts', write: true });
+    assert.deepStrictEqual(events, ['granted:a/1', 'granted:b/2', 'granted:e/5'], 'readers after a waiting writer wait too');
+    manager.unlock('testdb', 'a', '1');
+    manager.unlock('testdb', 'b', '2');
+    assert.deepStrictEqual(events.slice(3), ['granted:c/3']);
+    manager.unlock('testdb', 'c', '3');
+    assert.deepStrictEqual(events.slice(4), ['granted:d/4']);
+});
+
+test('locks: locks of the same transaction do not conflict', () => {
+    const { manager, events } = createLockManager();
+    manager.lock('testdb', { id: '1', clientId: 'a', tid: 'tx1', path: 'users', write: true });
+    manager.lock('testdb', { id: '2', clientId: 'a', tid: 'tx1', path: 'users/ewout', write: true });
+    manager.lock('testdb', { id: '3', clientId: 'b', tid: 'tx1', path: 'users/ewout', write: true });
+    manager.lock('testdb', { id: '1', clientId: 'a', tid: 'tx1', path: 'posts', write: true });
+    assert.deepStrictEqual(events, ['granted:a/1', 'granted:a/2', 'duplicate:a/1']);
+});
+
+test('locks: refuses requests that would cause a deadlock', () => {
+    const { manager, events } = createLockManager();
+    manager.lock('testdb', { id: '1', clientId: 'a', path: 'users', write: true });
+    manager.lock('testdb', { id: '2', clientId: 'b', path: 'posts', write: true });
+    manager.lock('testdb', { id: '3', clientId: 'a', tid: '1', path: 'posts', write: false });
+    manager.lock('testdb', { id: '4', clientId: 'b', tid: '2', path: 'users', write: false });
+    assert.deepStrictEqual(events, ['granted:a/1', 'granted:b/2', 'deadlock:b/4']);
+    manager.release('testdb', 'b');
+    assert.deepStrictEqual(events.slice(3), ['granted:a/3']);
+});
+
+test('locks: releases expired locks and refuses requests that waited too long', async () => {
+    const held = createLockManager({ timeout: 50 }), waiting = createLockManager({ waitTimeout: 50 });
+    [held, waiting].forEach(({ manager }) => {
+        manager.start();
+        manager.lock('testdb', { id: '1', clientId: 'a', path: 'users', write: true });
+        manager.lock('testdb', { id: '2', clientId: 'b', path: 'users', write: true });
+    });
+    try {
+        await wait(1100); // Expired locks are checked every second
+        assert.deepStrictEqual(held.events, ['granted:a/1', 'expired:a/1', 'granted:b/2']);
+        assert.deepStrictEqual(waiting.events, ['granted:a/1', 'timeout:b/2']);
+    }
+    finally {
+        held.manager.stop();
+        waiting.manager.stop();
+    }
+});
+
+test('locks: clients lock paths and are refused invalid requests', async () => {
+    const { createClient, transport, stop } = await startServer({ locks: {} });
+    try {
+        const a = createClient({ id: 'client1' }), b = createClient({ id: 'client2' });
+        await Promise.all([a.connect(), b.connect()]);
+        const lock = await a.lock('users', { write: true });
+        let granted = false;
+        const pending = b.lock('users/ewout').then(lock => { granted = true; return lock; });
+        await wait(20);
+        assert.strictEqual(granted, false);
+        await lock.release();
+        await (await pending).release();
+
+        const ws = transport.connect(`/testdb/connect?id=client3&v=${PROTOCOL_VERSION}`, {});
+        const replies: string[] = [];
+        ws.on('message', (data: Buffer) => replies.push(data.toString()));
+        await new Promise(resolve => ws.on('open', resolve));
+        ws.send('lock:1');
+        ws.send('lock:2;"users"');
+        await wait(20);
+        assert.ok(replies.includes('lockerr:1;invalid'));
+        assert.ok(replies.includes('lockerr:2;invalid'));
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('locks: peers can not forge lock grants or refusals', async () => {
+    const { createClient, stop } = await startServer({ locks: {} });
+    try {
+        const a = createClient({ id: 'client1' }), b = createClient({ id: 'client2' }), c = createClient({ id: 'client3' });
+        await Promise.all([a.connect(), b.connect(), c.connect()]);
+        const lock = await a.lock('users', { write: true });
+        let settled = false;
+        const pending = b.lock('users', { write: true }).finally(() => settled = true);
+        await wait(20);
+        // The lock request of client2 has id "1"
+        await c.send('locked:1', 'client2');
+        await c.send('lockerr:1;deadlock');
+        await wait(20);
+        assert.strictEqual(settled, false);
+        await lock.release();
+        await (await pending).release();
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('locks: refuses to start with federation', async () => {
+    await assert.rejects(startServer({ locks: {}, federation: { peers: [] }, token: 'secret' }), /locks can't be used with federation/);
+});
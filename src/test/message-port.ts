@@ -0,0 +1,50 @@
+import assert from 'assert';
+import { MessageChannel } from 'worker_threads';
+import { test, startServer, collectMessages, waitUntil, nextEvent } from './harness';
+import { serveMessagePort, AceBaseIPCMessagePortClientTransport } from '../message-port';
+
+test('message port: routes messages between clients on both sides of a port', async () => {
+    const { transport, createClient, stop } = await startServer({ maxPayload: 100 });
+    const { port1, port2 } = new MessageChannel();
+    const stopServing = serveMessagePort(transport, port1);
+    try {
+        const local = createClient({ id: 'client1' });
+        const remote = createClient({ id: 'client2', transport: new AceBaseIPCMessagePortClientTransport(port2) });
+        await local.connect();
+        const connected = nextEvent(local, 'peer-connect');
+        await remote.connect();
+        await connected;
+
+        const received = { local: collectMessages(local), remote: collectMessages(remote) };
+        const large = new Array(1000).fill('x').join('');
+        await local.send('hello remote', 'client2');
+        await remote.send(large, 'client1');
+        await waitUntil(() => received.local.length === 1 && received.remote.length === 1);
+        assert.deepStrictEqual(received.remote, ['hello remote']);
+        assert.strictEqual(received.local[0], large);
+
+        const disconnected = nextEvent(local, 'peer-disconnect');
+        remote.close();
+        assert.deepStrictEqual(await disconnected, ['client2']);
+    }
+    finally {
+        stopServing();
+        port1.close();
+        await stop();
+    }
+});
+
+test('message port: refuses connections like the server does', async () => {
+    const { transport, createClient, stop } = await startServer({ token: 'secret' });
+    const { port1, port2 } = new MessageChannel();
+    const stopServing = serveMessagePort(transport, port1);
+    try {
+        const client = createClient({ id: 'client1', token: 'wrong', transport: new AceBaseIPCMessagePortClientTransport(port2) });
+        await assert.rejects(client.connect(), /Connection refused: 403/);
+    }
+    finally {
+        stopServing();
+        port1.close();
+        await stop();
+    }
+});
@@ -0,0 +1,74 @@
+import assert from 'assert';
+import { test, startServer, collectMessages, waitUntil, nextEvent } from './harness';
+import { AceBaseIPCOutboxes } from '../outbox';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+test('outbox: only queues messages for peers that disconnected', () => {
+    const outboxes = new AceBaseIPCOutboxes({}, () => { throw new Error('no messages should be undeliverable'); });
+    assert.strictEqual(outboxes.add('testdb', 'client1', 'client2', 'never connected'), false);
+    outboxes.open('testdb', 'client2');
+    assert.strictEqual(outboxes.add('testdb', 'client1', 'client2', 'first'), true);
+    assert.strictEqual(outboxes.add('otherdb', 'client1', 'client2', 'other database'), false);
+    assert.strictEqual(outboxes.add('testdb', 'client1', 'client2', 'second'), true);
+    assert.deepStrictEqual(outboxes.take('testdb', 'client2'), ['first', 'second']);
+    assert.deepStrictEqual(outboxes.take('testdb', 'client2'), [], 'the outbox is removed once taken');
+});
+
+test('outbox: drops the oldest messages once maxBytes is exceeded', () => {
+    const undeliverable: string[] = [];
+    const outboxes = new AceBaseIPCOutboxes({ maxBytes: 100 }, (dbname, from, to) => undeliverable.push(`${dbname}:${from}->${to}`));
+    outboxes.open('testdb', 'client2');
+    const messages = ['a', 'b', 'c'].map(id => id.padEnd(40, '.'));
+    outboxes.add('testdb', 'client1', 'client2', messages[0]);
+    outboxes.add('testdb', 'client3', 'client2', messages[1]);
+    assert.deepStrictEqual(undeliverable, []);
+    outboxes.add('testdb', 'client3', 'client2', messages[2]);
+    assert.deepStrictEqual(undeliverable, ['testdb:client1->client2']);
+    assert.deepStrictEqual(outboxes.take('testdb', 'client2'), messages.slice(1));
+});
+
+test('outbox: expires messages after their ttl', async () => {
+    const undeliverable: string[] = [];
+    const outboxes = new AceBaseIPCOutboxes({ ttl: 50 }, (dbname, from, to) => undeliverable.push(`${dbname}:${from}->${to}`));
+    outboxes.start();
+    try {
+        outboxes.open('testdb', 'client2');
+        outboxes.add('testdb', 'client1', 'client2', 'expires');
+        await wait(1100); // Outboxes are cleaned up every second
+        assert.deepStrictEqual(undeliverable, ['testdb:client1->client2']);
+        assert.deepStrictEqual(outboxes.take('testdb', 'client2'), []);
+        assert.strictEqual(outboxes.add('testdb', 'client1', 'client2', 'too late'), false, 'the outbox of a peer that did not return is removed');
+    }
+    finally {
+        outboxes.stop();
+    }
+});
+
+test('outbox: delivers queued messages once a peer reconnects, and notifies senders of dropped ones', async () => {
+    const { createClient, stop } = await startServer({ outbox: { maxBytes: 100 } });
+    try {
+        const a = createClient({ id: 'client1' }), b = createClient({ id: 'client2' });
+        await Promise.all([a.connect(), b.connect()]);
+        const disconnected = nextEvent(a, 'peer-disconnect');
+        b.close();
+        await disconnected;
+        const undeliverable: string[] = [];
+        a.on('undeliverable', peerId => undeliverable.push(peerId));
+        const messages = ['a', 'b', 'c'].map(id => id.padEnd(40, '.'));
+        for (const message of messages) {
+            await a.send(message, 'client2');
+        }
+        await waitUntil(() => undeliverable.length === 1);
+        assert.deepStrictEqual(undeliverable, ['client2']);
+
+        const reconnected = createClient({ id: 'client2' });
+        const received = collectMessages(reconnected);
+        await reconnected.connect();
+        await waitUntil(() => received.length === 2);
+        assert.deepStrictEqual(received, messages.slice(1));
+    }
+    finally {
+        await stop();
+    }
+});
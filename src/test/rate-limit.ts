@@ -0,0 +1,78 @@
+import assert from 'assert';
+import { test, startServer, collectMessages, waitUntil } from './harness';
+import { AceBaseIPCRateLimits } from '../rate-limit';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+test('rate-limit: refills the buckets over time', async () => {
+    const limits = new AceBaseIPCRateLimits({ client: { bytes: 1000 } });
+    assert.strictEqual(limits.take('testdb', 'client1', 600), null);
+    assert.strictEqual(limits.take('testdb', 'client1', 600), null, 'the last message may exceed the remaining tokens');
+    assert.strictEqual(limits.take('testdb', 'client1', 1), 'client');
+    assert.strictEqual(limits.take('testdb', 'client2', 1), null, 'other clients have their own limits');
+    await wait(250);
+    assert.strictEqual(limits.take('testdb', 'client1', 1), null);
+});
+
+test('rate-limit: limits bytes and databases', () => {
+    const limits = new AceBaseIPCRateLimits({ client: { bytes: 100 }, database: { bytes: 150 } });
+    assert.strictEqual(limits.take('testdb', 'client1', 80), null);
+    assert.strictEqual(limits.take('testdb', 'client2', 80), null);
+    assert.strictEqual(limits.take('testdb', 'client3', 1), 'database');
+    assert.strictEqual(limits.take('testdb', 'client1', 1), 'database');
+    assert.strictEqual(limits.take('otherdb', 'client4', 1), null);
+});
+
+test('rate-limit: blocks an address after too many failed upgrades, until the block expires', async () => {
+    const limits = new AceBaseIPCRateLimits({ failedUpgrades: { maxAttempts: 2, window: 50, blockDuration: 100 } });
+    assert.strictEqual(limits.failed('1.2.3.4'), false);
+    await wait(60);
+    assert.strictEqual(limits.failed('1.2.3.4'), false, 'attempts of an expired window are not counted');
+    assert.strictEqual(limits.failed('1.2.3.4'), true);
+    assert.strictEqual(limits.isBlocked('1.2.3.4'), true);
+    assert.strictEqual(limits.isBlocked('5.6.7.8'), false);
+    await wait(110);
+    assert.strictEqual(limits.isBlocked('1.2.3.4'), false);
+});
+
+test('rate-limit: never blocks addresses if failed upgrades are not limited', () => {
+    const limits = new AceBaseIPCRateLimits({ failedUpgrades: false });
+    for (let i = 0; i < 20; i++) {
+        assert.strictEqual(limits.failed('1.2.3.4'), false);
+    }
+    assert.strictEqual(limits.isBlocked('1.2.3.4'), false);
+});
+
+test('rate-limit: does not block in-process clients after failed connection attempts', async () => {
+    const { createClient, stop } = await startServer({ token: 'secret', rateLimit: { failedUpgrades: { maxAttempts: 1 } } });
+    try {
+        await assert.rejects(createClient({ id: 'client1', token: 'wrong' }).connect(), /Connection refused: 403/);
+        await assert.rejects(createClient({ id: 'client1', token: 'wrong' }).connect(), /Connection refused: 403/);
+        await createClient({ id: 'client2', token: 'secret' }).connect();
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('rate-limit: drops messages of a throttled client and notifies it once', async () => {
+    const { createClient, stop } = await startServer({ rateLimit: { client: { bytes: 100 } } });
+    try {
+        const a = createClient({ id: 'client1' }), b = createClient({ id: 'client2' });
+        await Promise.all([a.connect(), b.connect()]);
+        const scopes: string[] = [];
+        a.on('throttled', scope => scopes.push(scope));
+        const received = collectMessages(b);
+        const messages = [0, 1, 2, 3, 4].map(i => `${i}`.padEnd(60, '.'));
+        for (const message of messages) {
+            await a.send(message);
+        }
+        await waitUntil(() => scopes.length === 1 && received.length === 2);
+        await wait(50);
+        assert.deepStrictEqual(scopes, ['client']);
+        assert.deepStrictEqual(received, messages.slice(0, 2));
+    }
+    finally {
+        await stop();
+    }
+});
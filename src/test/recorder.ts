@@ -0,0 +1,111 @@
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { test, startServer, waitUntil } from './harness';
+import { AceBaseIPCMemoryTransport } from '../memory';
+import { readRecording, replayRecording } from '../replay';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs a test with a temporary directory that is removed afterwards
+ */
+async function withTempDir(fn: (dir: string) => Promise<void>) {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'acebase-ipc-'));
+    try {
+        await fn(dir);
+    }
+    finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+test('recorder: records routed frames and replays them', () => withTempDir(async dir => {
+    const file = path.join(dir, 'recording.ndjson');
+    const { createClient, stop } = await startServer({ recorder: { path: file, payloads: true } });
+    try {
+        const a = createClient({ id: 'client1' }), b = createClient({ id: 'client2' });
+        await Promise.all([a.connect(), b.connect()]);
+        b.on('request', request => request.reply(`re: ${request.payload}`));
+        let published = false;
+        b.on('publish', () => published = true);
+        await b.subscribe('news');
+        await a.send('hello client2', 'client2');
+        await a.send('hello all');
+        assert.strictEqual(await a.request('client2', 'question'), 're: question');
+        await a.publish('news', 'headline');
+        await waitUntil(() => published);
+    }
+    finally {
+        await stop();
+    }
+    await wait(20); // Recording is flushed
+
+    const frames = await readRecording(file);
+    assert.deepStrictEqual(frames.map(frame => [frame.kind, frame.from, frame.recipients, frame.payload]), [
+        ['subscribe', 'client2', [], ''],
+        ['directed', 'client1', ['client2'], 'hello client2'],
+        ['broadcast', 'client1', ['client2'], 'hello all'],
+        ['request', 'client1', ['client2'], 'question'],
+        ['response', 'client2', ['client1'], 're: question'],
+        ['publish', 'client1', ['client2'], 'headline'],
+    ]);
+
+    const deliveries = await replayRecording(file, { transport: new AceBaseIPCMemoryTransport(), settleTime: 50 });
+    assert.deepStrictEqual(deliveries.map(delivery => [delivery.clientId, delivery.kind, delivery.payload]), [
+        ['client2', 'message', 'hello client2'],
+        ['client2', 'message', 'hello all'],
+        ['client2', 'request', 'question'],
+        ['client1', 'response', 're: question'],
+        ['client2', 'publish', 'headline'],
+    ]);
+}));
+
+test('recorder: does not record payloads unless enabled, replays placeholders of the same size', () => withTempDir(async dir => {
+    const file = path.join(dir, 'recording.ndjson');
+    const { createClient, stop } = await startServer({ recorder: { path: file } });
+    try {
+        const a = createClient({ id: 'client1' }), b = createClient({ id: 'client2' });
+        await Promise.all([a.connect(), b.connect()]);
+        let received = false;
+        b.on('message', () => received = true);
+        await a.send('secret', 'client2');
+        await waitUntil(() => received);
+    }
+    finally {
+        await stop();
+    }
+    await wait(20);
+
+    const frames = await readRecording(file);
+    assert.strictEqual(frames.length, 1);
+    assert.strictEqual(frames[0].payload, undefined);
+    assert.strictEqual(frames[0].size, 6);
+    const deliveries = await replayRecording(file, { transport: new AceBaseIPCMemoryTransport(), settleTime: 50 });
+    assert.deepStrictEqual(deliveries.map(delivery => delivery.payload), ['xxxxxx']);
+}));
+
+test('recorder: rotates files once they exceed maxFileSize', () => withTempDir(async dir => {
+    const file = path.join(dir, 'recording.ndjson');
+    const { createClient, stop } = await startServer({ recorder: { path: file, maxFileSize: 300, maxFiles: 2 } });
+    try {
+        const a = createClient({ id: 'client1' }), b = createClient({ id: 'client2' });
+        await Promise.all([a.connect(), b.connect()]);
+        const received: string[] = [];
+        b.on('message', msg => received.push(msg));
+        for (let i = 0; i < 6; i++) {
+            await a.send(`message ${i}`, 'client2');
+        }
+        await waitUntil(() => received.length === 6);
+    }
+    finally {
+        await stop();
+    }
+    await wait(20);
+
+    assert.deepStrictEqual(fs.readdirSync(dir).sort(), ['recording.ndjson', 'recording.ndjson.1']);
+    const frames = await readRecording([`${file}.1`, file]);
+    assert.ok(frames.length > 0 && frames.length < 6, 'the oldest file was removed');
+    assert.deepStrictEqual(frames.map(frame => frame.size), frames.map(() => 9));
+}));
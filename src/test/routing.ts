@@ -0,0 +1,160 @@
+import assert from 'assert';
+import { test, startServer, collectMessages, waitUntil, nextEvent, interceptSocket } from './harness';
+import { AceBaseIPCRequest } from '../client';
+
+test('routing: sends directed messages to a single peer', async () => {
+    const { createClient, stop } = await startServer();
+    try {
+        const [a, b, c] = ['client1', 'client2', 'client3'].map(id => createClient({ id }));
+        await Promise.all([a, b, c].map(client => client.connect()));
+        const received = { b: collectMessages(b), c: collectMessages(c) };
+        await a.send('hello client2', 'client2');
+        await waitUntil(() => received.b.length === 1);
+        assert.deepStrictEqual(received.b, ['hello client2']);
+        assert.deepStrictEqual(received.c, []);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('routing: broadcasts messages to all other peers', async () => {
+    const { createClient, stop } = await startServer();
+    try {
+        const [a, b, c] = ['client1', 'client2', 'client3'].map(id => createClient({ id }));
+        await Promise.all([a, b, c].map(client => client.connect()));
+        const received = { a: collectMessages(a), b: collectMessages(b), c: collectMessages(c) };
+        await a.send('hello all');
+        await waitUntil(() => received.b.length === 1 && received.c.length === 1);
+        assert.deepStrictEqual(received.b, ['hello all']);
+        assert.deepStrictEqual(received.c, ['hello all']);
+        assert.deepStrictEqual(received.a, []);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('routing: does not route messages between databases', async () => {
+    const { createClient, stop } = await startServer();
+    try {
+        const a = createClient({ id: 'client1' }), b = createClient({ id: 'client2' }), other = createClient({ id: 'client3', dbname: 'otherdb' });
+        await Promise.all([a, b, other].map(client => client.connect()));
+        const received = { b: collectMessages(b), other: collectMessages(other) };
+        await a.send('hello testdb');
+        await waitUntil(() => received.b.length === 1);
+        assert.deepStrictEqual(received.other, []);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('routing: replies to requests', async () => {
+    const { createClient, stop } = await startServer();
+    try {
+        const a = createClient({ id: 'client1' }), b = createClient({ id: 'client2' });
+        await Promise.all([a, b].map(client => client.connect()));
+        b.on('request', request => request.reply(`re: ${request.payload}`));
+        assert.strictEqual(await a.request('client2', 'question'), 're: question');
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('routing: matches replies to their requests', async () => {
+    const { createClient, stop } = await startServer();
+    try {
+        const a = createClient({ id: 'client1' }), b = createClient({ id: 'client2' });
+        await Promise.all([a, b].map(client => client.connect()));
+        const requests: AceBaseIPCRequest[] = [];
+        b.on('request', request => requests.push(request));
+        const replies = Promise.all([a.request('client2', 'first'), a.request('client2', 'second')]);
+        await waitUntil(() => requests.length === 2);
+        // Reply in reverse order
+        requests.reverse().forEach(request => request.reply(`re: ${request.payload}`));
+        assert.deepStrictEqual(await replies, ['re: first', 're: second']);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('routing: rejects requests to peers that are not connected', async () => {
+    const { createClient, stop } = await startServer();
+    try {
+        const a = createClient({ id: 'client1' });
+        await a.connect();
+        await assert.rejects(a.request('client2', 'question'), /is not connected/);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('routing: rejects requests that are not replied to in time', async () => {
+    const { createClient, stop } = await startServer({ requestTimeout: 50 });
+    try {
+        const a = createClient({ id: 'client1' }), b = createClient({ id: 'client2' });
+        await Promise.all([a, b].map(client => client.connect()));
+        const requests: AceBaseIPCRequest[] = [];
+        b.on('request', request => requests.push(request));
+        await assert.rejects(a.request('client2', 'question'), /timed out/);
+        // A late reply is dropped, the next request gets its own reply
+        await requests[0].reply('too late');
+        const reply = a.request('client2', 'next question');
+        await waitUntil(() => requests.length === 2);
+        await requests[1].reply('in time');
+        assert.strictEqual(await reply, 'in time');
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('routing: peers can not forge replies to requests', async () => {
+    const { createClient, transport, stop } = await startServer();
+    try {
+        const addressed = interceptSocket(transport), other = interceptSocket(transport);
+        const a = createClient({ id: 'client1' }), b = createClient({ id: 'client2', transport: addressed.transport });
+        const c = createClient({ id: 'client3', transport: other.transport });
+        await Promise.all([a, b, c].map(client => client.connect()));
+        const forwarded: string[] = [];
+        addressed.socket.on('message', (data: Buffer) => forwarded.push(data.toString('utf8')));
+        const requests: AceBaseIPCRequest[] = [];
+        b.on('request', request => requests.push(request));
+        let settled = false;
+        const reply = a.request('client2', 'question').finally(() => settled = true);
+        await waitUntil(() => requests.length === 1);
+
+        // The request of client1 has id "1", the server forwards it to client2 with an id of its own
+        const sid = (/^req:([^;]+);/.exec(forwarded[forwarded.length - 1]) as RegExpExecArray)[1];
+        await c.send('res:1;forged', 'client1');
+        await c.send('nopeer:1', 'client1');
+        await c.send('timeout:1');
+        other.socket.send(`res:${sid};forged`);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        assert.strictEqual(settled, false);
+
+        await requests[0].reply('answer');
+        assert.strictEqual(await reply, 'answer');
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('routing: notifies peers of connecting clients', async () => {
+    const { createClient, stop } = await startServer();
+    try {
+        const a = createClient({ id: 'client1' });
+        await a.connect();
+        const connected = nextEvent(a, 'peer-connect');
+        await createClient({ id: 'client2' }).connect();
+        assert.deepStrictEqual(await connected, ['client2']);
+    }
+    finally {
+        await stop();
+    }
+});
@@ -0,0 +1,37 @@
+import assert from 'assert';
+import { test } from './harness';
+import { AceBaseIPCMemoryTransport } from '../memory';
+import { AceBaseIPCTLSProxy, PROXY_SECRET_HEADER } from '../tls';
+import { AceBaseIPCConsoleLogger } from '../logger';
+
+function createGuardedTransport() {
+    const proxy = new AceBaseIPCTLSProxy({}, new AceBaseIPCConsoleLogger({ level: 'error' }));
+    const transport = new AceBaseIPCMemoryTransport();
+    const guarded = proxy.guard(transport);
+    guarded.get('/hello', res => { res.end('hello'); });
+    guarded.ws('/connect', { open: ws => { ws.send('welcome'); } });
+    return { proxy, transport };
+}
+
+test('tls: refuses requests that were not forwarded by the proxy', async () => {
+    const { proxy, transport } = createGuardedTransport();
+    const refused = await transport.request('GET', '/hello', {});
+    assert.strictEqual(refused.status, 403);
+    const forged = await transport.request('GET', '/hello', { [PROXY_SECRET_HEADER]: 'guess' });
+    assert.strictEqual(forged.status, 403);
+    const forwarded = await transport.request('GET', '/hello', { [PROXY_SECRET_HEADER]: proxy.secret });
+    assert.strictEqual(forwarded.status, 200);
+    assert.strictEqual(forwarded.body.toString(), 'hello');
+});
+
+test('tls: refuses websocket connections that were not forwarded by the proxy', async () => {
+    const { proxy, transport } = createGuardedTransport();
+    const ws = transport.connect('/connect', {});
+    const [, res] = await new Promise<any[]>(resolve => ws.on('unexpected-response', (...args) => resolve(args)));
+    assert.strictEqual(res.statusCode, 403);
+
+    const forwarded = transport.connect('/connect', { [PROXY_SECRET_HEADER]: proxy.secret });
+    const [data] = await new Promise<any[]>(resolve => forwarded.on('message', (...args) => resolve(args)));
+    assert.strictEqual(data.toString(), 'welcome');
+    forwarded.close();
+});
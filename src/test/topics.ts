@@ -0,0 +1,84 @@
+import assert from 'assert';
+import { test, startServer, waitUntil } from './harness';
+import { AceBaseIPCClient } from '../client';
+import { isValidTopic, matchTopic } from '../topics';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Collects the `"publish"` events of a client as `"[topic];[payload]"`
+ */
+function collectPublished(client: AceBaseIPCClient) {
+    const published: string[] = [];
+    client.on('publish', (topic: string, payload: string) => published.push(`${topic};${payload}`));
+    return published;
+}
+
+test('topics: matches topics with subscriptions', () => {
+    assert.strictEqual(matchTopic('users/ewout/messages', 'users/ewout/messages'), true);
+    assert.strictEqual(matchTopic('users/ewout', 'users/ewout/messages'), false);
+    assert.strictEqual(matchTopic('users/*/messages', 'users/ewout/messages'), true);
+    assert.strictEqual(matchTopic('users/$uid/messages', 'users/ewout/messages'), true);
+    assert.strictEqual(matchTopic('users/$uid', 'users/ewout/messages'), false, 'a wildcard matches exactly 1 segment');
+    assert.strictEqual(matchTopic('users/$uid/messages', 'users/messages'), false);
+    assert.strictEqual(matchTopic('users/**', 'users'), true);
+    assert.strictEqual(matchTopic('users/**', 'users/ewout/messages'), true);
+    assert.strictEqual(matchTopic('users/**', 'posts/ewout'), false);
+    assert.strictEqual(matchTopic('**', 'posts/ewout'), true);
+});
+
+test('topics: validates topics and subscriptions', () => {
+    assert.strictEqual(isValidTopic('users/ewout', false), true);
+    assert.strictEqual(isValidTopic('users/*', false), false, 'published topics can\'t contain wildcards');
+    assert.strictEqual(isValidTopic('users/*', true), true);
+    assert.strictEqual(isValidTopic('users/**/messages', true), false, '** must be the last segment');
+    assert.strictEqual(isValidTopic('users//ewout', true), false);
+    assert.strictEqual(isValidTopic('users;ewout', true), false);
+    assert.strictEqual(isValidTopic('', true), false);
+});
+
+test('topics: delivers published messages to matching subscribers only', async () => {
+    const { createClient, stop } = await startServer();
+    try {
+        const [a, b, c, d] = ['client1', 'client2', 'client3', 'client4'].map(id => createClient({ id }));
+        await Promise.all([a, b, c, d].map(client => client.connect()));
+        const published = { a: collectPublished(a), b: collectPublished(b), c: collectPublished(c), d: collectPublished(d) };
+        await a.subscribe('users/**');
+        await b.subscribe('users/$uid/messages');
+        await c.subscribe('users/ewout');
+        await d.subscribe('posts/*');
+        await wait(20);
+        await a.publish('users/ewout/messages', 'hello');
+        await d.publish('users/ewout', 'renamed');
+        await waitUntil(() => published.a.length === 1 && published.b.length === 1 && published.c.length === 1);
+        await wait(20);
+        assert.deepStrictEqual(published.a, ['users/ewout;renamed'], 'publishers do not receive their own messages');
+        assert.deepStrictEqual(published.b, ['users/ewout/messages;hello']);
+        assert.deepStrictEqual(published.c, ['users/ewout;renamed']);
+        assert.deepStrictEqual(published.d, []);
+    }
+    finally {
+        await stop();
+    }
+});
+
+test('topics: stops delivering messages once unsubscribed', async () => {
+    const { createClient, stop } = await startServer();
+    try {
+        const a = createClient({ id: 'client1' }), b = createClient({ id: 'client2' });
+        await Promise.all([a.connect(), b.connect()]);
+        const published = collectPublished(b);
+        await b.subscribe('users/*');
+        await wait(20);
+        await a.publish('users/ewout', 'first');
+        await waitUntil(() => published.length === 1);
+        await b.unsubscribe('users/*');
+        await wait(20);
+        await a.publish('users/ewout', 'second');
+        await wait(20);
+        assert.deepStrictEqual(published, ['users/ewout;first']);
+    }
+    finally {
+        await stop();
+    }
+});
@@ -0,0 +1,275 @@
+import fs from 'fs';
+import net from 'net';
+import http from 'http';
+import https from 'https';
+import tls from 'tls';
+import crypto from 'crypto';
+import { AceBaseIPCLogger } from './logger';
+import { safeCompare } from './auth';
+import { AceBaseIPCHttpHandler, AceBaseIPCHttpRequest, AceBaseIPCHttpResponse, AceBaseIPCSocketBehavior, AceBaseIPCTransport } from './transport';
+
+export interface AceBaseIPCSSLConfig {
+    /** Certificate file (PEM). Can contain the full chain, intermediate certificates must follow the server certificate */
+    certPath?: string
+    /** Private key file (PEM) */
+    keyPath?: string
+    /** PKCS#12 (.pfx or .p12) file containing the certificate chain and private key, instead of `certPath` and `keyPath` */
+    pfxPath?: string
+    /** Passphrase of the private key or PFX file */
+    passphrase?: string
+    /**
+     * CA certificates (PEM) to verify client certificates with. Enables mutual TLS: clients must present a valid
+     * certificate signed by one of these CAs
+     */
+    caPath?: string
+    /**
+     * Client certificates allowed per database, by subject common name (CN) or SHA-256 fingerprint. Use `"*"` as dbname for
+     * certificates that may access all databases. Requires `caPath`. Default is all valid client certificates
+     * @example { orders: ['orders-worker'], '*': ['AB:CD:...'] }
+     */
+    clientCertificates?: { [dbname: string]: string[] }
+    /** Whether to watch the certificate files and reload them when they change, without dropping connections. Default is `true` */
+    watch?: boolean
+}
+
+/** Header the TLS proxy uses to pass the remote address of a client */
+export const PROXY_ADDRESS_HEADER = 'x-acebase-ipc-address';
+/** Header the TLS proxy uses to prove requests come from it */
+export const PROXY_SECRET_HEADER = 'x-acebase-ipc-proxy';
+
+/** First path segments of routes that are not about a specific database */
+const GLOBAL_ROUTES = ['admin', '_federation'];
+
+/**
+ * Terminates TLS for the IPC server, and forwards requests and websocket connections to the (plain) uWS app listening on
+ * a local port. Terminating TLS in Node.js allows PFX files, client certificate checks per database, and reloading
+ * certificates without dropping connections. The remote address of clients is passed in a header, together with a secret
+ * that proves the request was forwarded by the proxy. The routes of the uWS app must be added through `guard`, so requests
+ * of local processes connecting to its port directly are refused
+ */
+export class AceBaseIPCTLSProxy {
+
+    readonly secret = crypto.randomBytes(24).toString('base64');
+    private server?: https.Server;
+    private sockets = new Set<net.Socket>();
+    private watching: string[] = [];
+    private reloadTimeout?: NodeJS.Timeout;
+
+    constructor(private config: AceBaseIPCSSLConfig, private logger: AceBaseIPCLogger) {}
+
+    /**
+     * Reads the certificate files
+     */
+    private getOptions(): tls.SecureContextOptions {
+        const { certPath, keyPath, pfxPath, passphrase, caPath } = this.config;
+        return {
+            cert: certPath ? fs.readFileSync(certPath) : undefined,
+            key: keyPath ? fs.readFileSync(keyPath) : undefined,
+            pfx: pfxPath ? fs.readFileSync(pfxPath) : undefined,
+            passphrase,
+            ca: caPath ? fs.readFileSync(caPath) : undefined,
+        };
+    }
+
+    /**
+     * Gets the options to connect to other servers with: the server's own certificate is used as client certificate,
+     * and server certificates are verified with `caPath` if set
+     */
+    getClientOptions(): tls.ConnectionOptions {
+        const { cert, key, pfx, passphrase, ca } = this.getOptions();
+        return { cert, key, pfx, passphrase, ca };
+    }
+
+    /**
+     * Checks whether a request was forwarded by this proxy
+     */
+    isForwarded(req: AceBaseIPCHttpRequest) {
+        const secret = req.getHeader(PROXY_SECRET_HEADER);
+        return secret.length > 0 && safeCompare(secret, this.secret);
+    }
+
+    /**
+     * Wraps the transport the proxy forwards to, so its routes refuse requests and websocket connections that were not
+     * forwarded by the proxy with `403`. Otherwise local processes could connect to its port directly, bypassing the client
+     * certificate checks
+     */
+    guard(transport: AceBaseIPCTransport): AceBaseIPCTransport {
+        const refuse = (res: AceBaseIPCHttpResponse) => {
+            this.logger.warn(`Refused request that was not forwarded by the TLS proxy`);
+            res.writeStatus('403 Forbidden');
+            res.end('Forbidden');
+        };
+        const guarded = (handler: AceBaseIPCHttpHandler): AceBaseIPCHttpHandler => (res, req) => {
+            this.isForwarded(req) ? handler(res, req) : refuse(res);
+        };
+        return {
+            get: (pattern, handler) => transport.get(pattern, guarded(handler)),
+            post: (pattern, handler) => transport.post(pattern, guarded(handler)),
+            ws: (pattern, behavior) => {
+                const upgrade: AceBaseIPCSocketBehavior['upgrade'] = (res, req, context) => {
+                    if (!this.isForwarded(req)) { return refuse(res); }
+                    behavior.upgrade
+                        ? behavior.upgrade(res, req, context)
+                        : res.upgrade({}, req.getHeader('sec-websocket-key'), req.getHeader('sec-websocket-protocol'), req.getHeader('sec-websocket-extensions'), context);
+                };
+                return transport.ws(pattern, { ...behavior, upgrade });
+            },
+            publish: (topic, message, isBinary, compress) => transport.publish(topic, message, isBinary, compress),
+            close: () => transport.close?.(),
+        };
+    }
+
+    /**
+     * Starts listening for TLS connections
+     * @param listen where to listen: `port` and optional `host`, or a unix socket `path`
+     * @param upstreamPort local port the uWS app listens on
+     */
+    async start(listen: { host?: string, port: number, path?: string }, upstreamPort: number) {
+        const mutual = !!this.config.caPath;
+        const server = https.createServer({ ...this.getOptions(), requestCert: mutual, rejectUnauthorized: mutual });
+        this.server = server;
+        server.on('connection', (socket: net.Socket) => {
+            this.sockets.add(socket);
+            socket.once('close', () => this.sockets.delete(socket));
+        });
+        server.on('tlsClientError', err => this.logger.debug(`TLS handshake failed`, { error: err }));
+        server.on('request', (req: http.IncomingMessage, res: http.ServerResponse) => this.forwardRequest(req, res, upstreamPort));
+        server.on('upgrade', (req: http.IncomingMessage, socket: net.Socket, head: Buffer) => this.forwardUpgrade(req, socket, head, upstreamPort));
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            const listening = () => {
+                server.off('error', reject);
+                resolve();
+            };
+            listen.path ? server.listen(listen.path, listening) : server.listen(listen.port, listen.host, listening);
+        });
+        if (this.config.watch !== false) {
+            this.watch();
+        }
+    }
+
+    /**
+     * Stops listening and closes all connections
+     */
+    stop() {
+        this.watching.forEach(file => fs.unwatchFile(file));
+        this.watching = [];
+        this.reloadTimeout && clearTimeout(this.reloadTimeout);
+        this.server?.close();
+        this.server = undefined;
+        this.sockets.forEach(socket => socket.destroy());
+        this.sockets.clear();
+    }
+
+    private watch() {
+        const { certPath, keyPath, pfxPath, caPath } = this.config;
+        this.watching = [certPath, keyPath, pfxPath, caPath].filter(file => typeof file === 'string') as string[];
+        this.watching.forEach(file => {
+            fs.watchFile(file, { interval: 5000, persistent: false }, (curr, prev) => {
+                if (curr.mtimeMs === prev.mtimeMs) { return; }
+                // Certificate and key are often replaced one after the other, wait for both
+                this.reloadTimeout && clearTimeout(this.reloadTimeout);
+                this.reloadTimeout = setTimeout(() => this.reload(), 1000);
+            });
+        });
+    }
+
+    /**
+     * Reloads the certificate files. New connections use the new certificates, existing connections are not affected
+     */
+    reload() {
+        try {
+            const options = this.getOptions();
+            tls.createSecureContext(options); // Throws if the files are invalid or don't match
+            this.server?.setSecureContext(options);
+            this.logger.info(`Reloaded TLS certificates`);
+        }
+        catch (err) {
+            this.logger.error(`Failed to reload TLS certificates, keeping the current ones`, { error: err });
+        }
+    }
+
+    /**
+     * Checks whether the client certificate used for a request is allowed to access the requested database
+     */
+    private isAllowed(req: http.IncomingMessage) {
+        const allowed = this.config.clientCertificates;
+        if (!this.config.caPath || !allowed) { return true; }
+        const segments = (req.url || '').split('?')[0].split('/').filter(segment => segment.length > 0);
+        if (segments.length < 2 || GLOBAL_ROUTES.includes(segments[0])) { return true; }
+        let dbname: string;
+        try {
+            dbname = decodeURIComponent(segments[0]);
+        }
+        catch (err) {
+            return false; // Malformed path
+        }
+        const cert = (req.socket as tls.TLSSocket).getPeerCertificate();
+        const fingerprint = (cert.fingerprint256 || '').replace(/:/g, '').toUpperCase();
+        return (allowed[dbname] || []).concat(allowed['*'] || []).some(entry => {
+            return entry === cert.subject?.CN || entry.replace(/:/g, '').toUpperCase() === fingerprint;
+        });
+    }
+
+    private getHeaders(req: http.IncomingMessage) {
+        const headers: http.OutgoingHttpHeaders = { ...req.headers };
+        headers[PROXY_ADDRESS_HEADER] = req.socket.remoteAddress || ''; // Overwrites values sent by clients, so they can't spoof them
+        headers[PROXY_SECRET_HEADER] = this.secret;
+        return headers;
+    }
+
+    private forwardRequest(req: http.IncomingMessage, res: http.ServerResponse, upstreamPort: number) {
+        if (!this.isAllowed(req)) {
+            res.writeHead(403);
+            return res.end('Forbidden');
+        }
+        const upstream = http.request({ host: '127.0.0.1', port: upstreamPort, method: req.method, path: req.url, headers: this.getHeaders(req) }, upstreamRes => {
+            res.writeHead(upstreamRes.statusCode || 502, upstreamRes.headers);
+            upstreamRes.pipe(res);
+        });
+        upstream.on('error', err => {
+            this.logger.error(`Error forwarding request to IPC server`, { error: err });
+            res.headersSent ? res.destroy() : res.writeHead(502).end('Bad Gateway');
+        });
+        res.on('close', () => upstream.destroy());
+        req.pipe(upstream);
+    }
+
+    private forwardUpgrade(req: http.IncomingMessage, socket: net.Socket, head: Buffer, upstreamPort: number) {
+        if (!this.isAllowed(req)) {
+            socket.end('HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n');
+            return;
+        }
+        const upstream = net.connect(upstreamPort, '127.0.0.1', () => {
+            const headers = this.getHeaders(req);
+            let requestHead = `${req.method} ${req.url} HTTP/${req.httpVersion}\r\n`;
+            Object.keys(headers).forEach(name => {
+                const value = headers[name];
+                (value instanceof Array ? value : [value]).forEach(value => requestHead += `${name}: ${value}\r\n`);
+            });
+            upstream.write(requestHead + '\r\n');
+            head.length > 0 && upstream.write(head);
+            socket.pipe(upstream).pipe(socket);
+        });
+        upstream.setNoDelay(true);
+        socket.setNoDelay(true);
+        upstream.on('error', () => socket.destroy());
+        socket.on('error', () => upstream.destroy());
+        upstream.on('close', () => socket.destroy());
+        socket.on('close', () => upstream.destroy());
+    }
+}
+
+/**
+ * Finds a free port on the loopback interface
+ */
+export function getFreePort() {
+    return new Promise<number>((resolve, reject) => {
+        const server = net.createServer();
+        server.once('error', reject);
+        server.listen(0, '127.0.0.1', () => {
+            const port = (server.address() as net.AddressInfo).port;
+            server.close(() => resolve(port));
+        });
+    });
+}
@@ -0,0 +1,42 @@
+/**
+ * Topics are path-style strings like `"users/ewout/messages"`. Subscriptions can contain wildcards:
+ * - `*` or `$name` matches exactly 1 path segment, eg `"users/$uid/messages"` matches `"users/ewout/messages"`
+ * - `**` as last segment matches any number of remaining segments (including none), eg `"users/**"` matches `"users"` and `"users/ewout/messages"`
+ *
+ * Published topics can't contain wildcards. Topics can't contain `;`, because it separates the topic from the payload
+ */
+
+/** Maximum length of a topic or subscription */
+export const MAX_TOPIC_LENGTH = 1024;
+
+/**
+ * Checks whether a subscription contains wildcards
+ */
+export function isWildcardTopic(topic: string) {
+    return topic.split('/').some(segment => segment === '*' || segment === '**' || segment.startsWith('$'));
+}
+
+/**
+ * Checks whether a topic (or subscription if `wildcards` is `true`) is valid
+ */
+export function isValidTopic(topic: string, wildcards: boolean) {
+    if (topic.length === 0 || topic.length > MAX_TOPIC_LENGTH || topic.includes(';')) { return false; }
+    const segments = topic.split('/');
+    if (segments.some(segment => segment.length === 0)) { return false; }
+    if (!wildcards) { return !isWildcardTopic(topic); }
+    return segments.every((segment, i) => segment !== '**' || i === segments.length - 1);
+}
+
+/**
+ * Checks whether a topic matches a subscription
+ */
+export function matchTopic(subscription: string, topic: string) {
+    if (subscription === topic) { return true; }
+    const pattern = subscription.split('/'), segments = topic.split('/');
+    for (let i = 0; i < pattern.length; i++) {
+        if (pattern[i] === '**') { return true; }
+        if (i >= segments.length) { return false; }
+        if (pattern[i] !== '*' && !pattern[i].startsWith('$') && pattern[i] !== segments[i]) { return false; }
+    }
+    return pattern.length === segments.length;
+}
@@ -0,0 +1,129 @@
+/**
+ * Transports carry the IPC protocol between clients and the server. The server's routing logic only uses the interfaces
+ * below, which follow the API of uWebSockets.js: the uWS transport (see `uws.ts`) passes its objects through unchanged,
+ * other transports (see `memory.ts` and `message-port.ts`) implement them for clients in the same process or worker threads.
+ */
+
+export type RecognizedString = string | ArrayBuffer | Uint8Array;
+
+/**
+ * Websocket connection of a client, without the data added during the upgrade
+ */
+export interface AceBaseIPCSocketBase {
+    /** Sends a message, returns whether it was sent without back pressure */
+    send(message: RecognizedString, isBinary?: boolean, compress?: boolean): boolean | number
+    /** Sends a ping frame, the client responds with a pong */
+    ping(message?: RecognizedString): boolean | number
+    /** Subscribes to a topic of the transport */
+    subscribe(topic: string): boolean
+    unsubscribe(topic: string): boolean
+    /** Publishes a message to all other sockets subscribed to a topic */
+    publish(topic: string, message: RecognizedString, isBinary?: boolean, compress?: boolean): boolean
+    /** Amount of bytes buffered because of back pressure */
+    getBufferedAmount(): number
+    /** Closes the connection immediately */
+    close(): void
+}
+
+/**
+ * Websocket connection of a client. Data passed to `res.upgrade` during the upgrade is available as properties of type `UserData`
+ */
+export type AceBaseIPCSocket<UserData = unknown> = AceBaseIPCSocketBase & UserData;
+
+export interface AceBaseIPCHttpRequest {
+    getHeader(lowerCaseKey: string): string
+    getParameter(index: number): string
+    getUrl(): string
+    getMethod(): string
+    getQuery(): string
+}
+
+export interface AceBaseIPCHttpResponse {
+    writeStatus(status: RecognizedString): AceBaseIPCHttpResponse
+    writeHeader(key: RecognizedString, value: RecognizedString): AceBaseIPCHttpResponse
+    write(chunk: RecognizedString): boolean
+    end(body?: RecognizedString): AceBaseIPCHttpResponse
+    tryEnd(fullBodyOrChunk: RecognizedString, totalSize: number): [boolean, boolean]
+    close(): AceBaseIPCHttpResponse
+    getWriteOffset(): number
+    onWritable(handler: (offset: number) => boolean): AceBaseIPCHttpResponse
+    onAborted(handler: () => void): AceBaseIPCHttpResponse
+    onData(handler: (chunk: ArrayBuffer, isLast: boolean) => void): AceBaseIPCHttpResponse
+    /** Stops receiving the request body until `resume` is called. Not available in older uWebSockets.js versions */
+    pause?(): void
+    resume?(): void
+    getRemoteAddressAsText(): ArrayBuffer
+    /** Upgrades the request to a websocket connection, `userData` is added to the socket */
+    upgrade<T>(userData: T, secWebSocketKey: RecognizedString, secWebSocketProtocol: RecognizedString, secWebSocketExtensions: RecognizedString, context: any): void
+}
+
+export type AceBaseIPCHttpHandler = (res: AceBaseIPCHttpResponse, req: AceBaseIPCHttpRequest) => void;
+
+/**
+ * Handlers of a websocket route. They are declared as methods, so behaviors for sockets with specific user data can be
+ * passed to transports that handle sockets of all routes alike
+ * @typeParam UserData type of the data passed to `res.upgrade` in the `upgrade` handler
+ */
+export interface AceBaseIPCSocketBehavior<UserData = unknown> {
+    /** Maximum size of received messages, larger messages close the connection */
+    maxPayloadLength?: number
+    /** Time in seconds after which idle connections are closed, `0` to disable */
+    idleTimeout?: number
+    /** Maximum amount of bytes buffered for a socket before messages are dropped, `0` for unlimited */
+    maxBackpressure?: number
+    /** Permessage-deflate compression */
+    compression?: 'disabled' | 'shared' | 'dedicated'
+    upgrade?(res: AceBaseIPCHttpResponse, req: AceBaseIPCHttpRequest, context: any): void
+    open?(ws: AceBaseIPCSocket<UserData>): void
+    message?(ws: AceBaseIPCSocket<UserData>, message: ArrayBuffer, isBinary: boolean): void
+    drain?(ws: AceBaseIPCSocket<UserData>): void
+    close?(ws: AceBaseIPCSocket<UserData>, code: number, message: ArrayBuffer): void
+    pong?(ws: AceBaseIPCSocket<UserData>): void
+}
+
+/**
+ * Transport the server registers its routes with. Route patterns use uWS syntax: `/:dbname/connect`
+ */
+export interface AceBaseIPCTransport {
+    get(pattern: string, handler: AceBaseIPCHttpHandler): any
+    post(pattern: string, handler: AceBaseIPCHttpHandler): any
+    ws<UserData>(pattern: string, behavior: AceBaseIPCSocketBehavior<UserData>): any
+    /** Publishes a message to all sockets subscribed to a topic */
+    publish(topic: string, message: RecognizedString, isBinary?: boolean, compress?: boolean): boolean
+    /** Called when the server stops, the transport must stop accepting connections and remove its routes */
+    close?(): void
+}
+
+/**
+ * Client side of a websocket connection, behaves like a `ws` WebSocket: emits `"message"` `(data: Buffer, isBinary: boolean)`,
+ * `"close"`, `"error"` and `"unexpected-response"` `(req, res)` if the server refused the connection
+ */
+export interface AceBaseIPCClientSocket {
+    readonly readyState: number
+    /** Sends a message, strings as text frames and Buffers as binary frames */
+    send(data: string | Buffer): void
+    close(): void
+    on(event: string, listener: (...args: any[]) => void): this
+}
+
+export interface AceBaseIPCClientResponse {
+    status: number
+    headers: { [name: string]: string }
+    body: Buffer
+}
+
+/**
+ * Transport an `AceBaseIPCClient` connects with instead of websocket and http connections
+ */
+export interface AceBaseIPCClientTransport {
+    /**
+     * Opens a websocket connection
+     * @param path path and query, eg `"/mydb/connect?id=client1"`
+     */
+    connect(path: string, headers: { [name: string]: string }): AceBaseIPCClientSocket
+    /**
+     * Executes a http request
+     * @param path path and query, eg `"/mydb/receive?id=client1&msg=1234"`
+     */
+    request(method: 'GET' | 'POST', path: string, headers: { [name: string]: string }, body?: Buffer): Promise<AceBaseIPCClientResponse>
+}
@@ -0,0 +1,83 @@
+import uWS from 'uWebSockets.js';
+import { AceBaseIPCHttpHandler, AceBaseIPCSocketBehavior, AceBaseIPCTransport, RecognizedString } from './transport';
+
+/**
+ * `listen_unix` of uWebSockets.js apps, which is not in the typings of all supported uWebSockets.js versions
+ */
+interface UnixListener {
+    listen_unix?(callback: (listenSocket: uWS.us_listen_socket | false) => void, path: string): void
+}
+
+/**
+ * Transport for network connections, using uWebSockets.js. Its objects implement the transport interfaces, they are passed
+ * to the server's handlers unchanged
+ */
+export class AceBaseIPCUWSTransport implements AceBaseIPCTransport {
+
+    readonly app = uWS.App();
+    private listenSocket?: uWS.us_listen_socket;
+
+    /** Whether the transport is listening for connections */
+    get listening() { return !!this.listenSocket; }
+
+    get(pattern: string, handler: AceBaseIPCHttpHandler) {
+        this.app.get(pattern, handler);
+        return this;
+    }
+
+    post(pattern: string, handler: AceBaseIPCHttpHandler) {
+        this.app.post(pattern, handler);
+        return this;
+    }
+
+    ws<UserData>(pattern: string, behavior: AceBaseIPCSocketBehavior<UserData>) {
+        // uWS adds the data passed to res.upgrade to its sockets, they are passed to the handlers as they are
+        const { compression, ...handlers }: AceBaseIPCSocketBehavior = behavior;
+        this.app.ws(pattern, {
+            ...handlers,
+            compression: compression === 'shared' ? uWS.SHARED_COMPRESSOR
+                : compression === 'dedicated' ? uWS.DEDICATED_COMPRESSOR
+                : uWS.DISABLED,
+        });
+        return this;
+    }
+
+    publish(topic: string, message: RecognizedString, isBinary?: boolean, compress?: boolean) {
+        return this.app.publish(topic, message, isBinary, compress);
+    }
+
+    /**
+     * Starts listening for connections
+     * @param listen `port` and optional `host`, or a unix socket `path`
+     * @returns whether the transport is listening
+     */
+    listen(listen: { host?: string, port: number, path?: string }) {
+        return new Promise<boolean>((resolve, reject) => {
+            const listening = (listenSocket: uWS.us_listen_socket | false) => {
+                this.listenSocket = listenSocket || undefined;
+                resolve(!!listenSocket);
+            };
+            if (listen.path) {
+                const app: uWS.TemplatedApp & UnixListener = this.app;
+                if (typeof app.listen_unix !== 'function') {
+                    return reject(new Error(`Listening on a unix socket requires uWebSockets.js v20.39.0 or newer`));
+                }
+                app.listen_unix(listening, listen.path);
+            }
+            else if (listen.host) {
+                this.app.listen(listen.host, listen.port, listening);
+            }
+            else {
+                this.app.listen(listen.port, listening);
+            }
+        });
+    }
+
+    /**
+     * Stops listening. Open connections are not closed
+     */
+    close() {
+        this.listenSocket && uWS.us_listen_socket_close(this.listenSocket);
+        this.listenSocket = undefined;
+    }
+}